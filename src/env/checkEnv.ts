@@ -1,8 +1,14 @@
 import { execa } from 'execa';
+import prompts from 'prompts';
 import { CONSTANTS } from '../utils/constants.js';
 import { logger } from '../utils/logger.js';
+import { findJdk, provisionJdk, readJavaInfo, getJdksDir } from './jdk.js';
 
-export async function checkEnv() {
+/**
+ * Checks Node, the JDK and git. Returns the home of the JDK Gradle should use when it isn't
+ * the one on PATH / JAVA_HOME (found in SDKMAN, /usr/lib/jvm, ... or downloaded), else null.
+ */
+export async function checkEnv(options: { offline?: boolean; yes?: boolean } = {}): Promise<string | null> {
   // 1. Check Node
   const nodeVersion = process.version;
   const majorNodeVersion = parseInt(nodeVersion.replace(/^v/, ''), 10);
@@ -12,41 +18,8 @@ export async function checkEnv() {
   }
   logger.success(`Node.js ${nodeVersion}`);
 
-  // 2. Check Java
-  try {
-    const { stdout, stderr } = await execa('java', ['-version']);
-    const output = stdout || stderr;
-
-    // Matches "1.8.0_...", "11.0.1", "17.0.1", "21", etc.
-    const versionMatch = output.match(/(?:version\s+"?|(\d+)\.)(\d+)/i);
-    
-    let majorVersion = 0;
-    if (versionMatch) {
-        if (versionMatch[1] === '1') {
-            majorVersion = parseInt(versionMatch[2], 10); // Handle 1.8.x
-        } else {
-            majorVersion = parseInt(versionMatch[1] || versionMatch[0].match(/\d+/)?.[0] || "0", 10);
-        }
-    }
-
-    // Fallback simple match if regex above is too complex
-    if (majorVersion === 0) {
-        const simpleMatch = output.match(/(\d+)\.\d+\.\d+/);
-        if (simpleMatch) majorVersion = parseInt(simpleMatch[1], 10);
-    }
-
-    if (majorVersion >= CONSTANTS.JAVA_VERSION_REQ) {
-        logger.success(`Java version ${majorVersion} detected.`);
-    } else {
-        logger.error(`Java ${CONSTANTS.JAVA_VERSION_REQ}+ required. Found version ${majorVersion || 'unknown'}.`);
-        logger.info(`Output: ${output.split('\n')[0]}`);
-        process.exit(1);
-    }
-  } catch (e) {
-    logger.error(`Java runtime not found. Please install JDK ${CONSTANTS.JAVA_VERSION_REQ}+.`);
-    logger.info(`Download: https://adoptium.net/temurin/releases/`);
-    process.exit(1);
-  }
+  // 2. Check Java: a JDK found elsewhere or provisioned here replaces the one on PATH for Gradle
+  const javaHome = await resolveJdk(options);
 
   // 3. Check Git
   try {
@@ -55,4 +28,48 @@ export async function checkEnv() {
   } catch (e) {
       logger.warn('Git not found. Project will be generated without git initialization.');
   }
+
+  return javaHome;
+}
+
+async function resolveJdk(options: { offline?: boolean; yes?: boolean }): Promise<string | null> {
+  const required = CONSTANTS.JAVA_VERSION_REQ;
+  const jdk = await findJdk(required);
+  // gradlew starts from JAVA_HOME when set, so java on PATH is only enough without one
+  if (jdk && (jdk.source === 'JAVA_HOME' || (jdk.source === 'PATH' && !process.env.JAVA_HOME))) {
+    logger.success(`Java version ${jdk.major} detected.`);
+    return null;
+  }
+  if (jdk) {
+    logger.success(`Using JDK ${jdk.version} from ${jdk.home} (${jdk.source}).`);
+    return jdk.home;
+  }
+
+  const java = await readJavaInfo('java');
+  logger.warn(java ? `Java ${required}+ required. Found version ${java.version}.` : `Java runtime not found. JDK ${required}+ is required.`);
+
+  let download = options.yes === true;
+  if (!download && process.stdin.isTTY) {
+    const response = await prompts({
+      type: 'confirm',
+      name: 'download',
+      message: `Download Eclipse Temurin ${required} into ${getJdksDir()}?`,
+      initial: true
+    });
+    download = response.download === true;
+  }
+  if (!download) {
+    logger.info(`Install JDK ${required}+ from https://adoptium.net/temurin/releases/ before building the project.`);
+    return null;
+  }
+
+  try {
+    const home = await provisionJdk({ offline: options.offline });
+    logger.success(`JDK ${required} installed at ${home}.`);
+    return home;
+  } catch (e: any) {
+    logger.warn(`Could not install a JDK: ${e.message}`);
+    logger.info(`Install JDK ${required}+ from https://adoptium.net/temurin/releases/ before building the project.`);
+    return null;
+  }
 }
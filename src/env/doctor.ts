@@ -0,0 +1,246 @@
+import fs from 'fs-extra';
+import path from 'path';
+import os from 'os';
+import AdmZip from 'adm-zip';
+import { CONSTANTS } from '../utils/constants.js';
+import { getDataDir } from '../utils/cache.js';
+import { compareVersions } from '../utils/versionRange.js';
+import { SDK_LICENSES } from '../sdk/installSdk.js';
+import { getWrapperPropertiesPath, parseWrapperVersion } from '../gradle/setupGradle.js';
+import { SdkRoot, resolveSdkRoot, readSdkDir, readCompileSdks } from '../sdk/sdkPackages.js';
+import { Jdk, JavaInfo, readJavaInfo, findJdk } from './jdk.js';
+
+export type CheckStatus = 'ok' | 'warn' | 'fail';
+
+export interface DoctorCheck {
+    name: string;
+    status: CheckStatus;
+    message: string;
+    // What to run or change when the check does not pass
+    fix?: string;
+}
+
+export interface DoctorReport {
+    project: string | null;
+    sdk: string | null;
+    checks: DoctorCheck[];
+}
+
+const MIN_FREE_BYTES = 1024 ** 3;
+const LOW_FREE_BYTES = 5 * 1024 ** 3;
+
+/**
+ * Checks the toolchain (Node, JDK, Android SDK, disk space) and, when `projectPath`
+ * is a Gradle project, its wrapper, `local.properties` and the SDK packages its
+ * `compileSdk` needs. Every check runs; none of them exits.
+ */
+export async function runDoctor(projectPath: string | null): Promise<DoctorReport> {
+    const checks: DoctorCheck[] = [checkNode()];
+
+    const java = await readJavaInfo('java');
+    const installed = !java || java.major < CONSTANTS.JAVA_VERSION_REQ ? await findJdk() : null;
+    checks.push(checkJdk(java, installed), await checkJavaHome(java));
+
+    const sdk = await resolveSdkRoot(projectPath);
+    checks.push(checkSdkRoot(sdk));
+    if (sdk.exists) {
+        const compileSdks = projectPath ? await readCompileSdks(projectPath) : [];
+        checks.push(
+            await checkPlatforms(sdk.path, compileSdks),
+            await checkBuildTools(sdk.path, compileSdks),
+            checkAdb(sdk.path),
+            await checkLicenses(sdk.path)
+        );
+    }
+
+    if (projectPath) {
+        checks.push(await checkWrapper(projectPath), await checkLocalProperties(projectPath));
+    }
+    checks.push(await checkDiskSpace(sdk.exists ? sdk.path : projectPath ?? os.homedir()));
+
+    return { project: projectPath, sdk: sdk.exists ? sdk.path : null, checks };
+}
+
+function checkNode(): DoctorCheck {
+    const major = parseInt(process.version.replace(/^v/, ''), 10);
+    if (major < CONSTANTS.NODE_VERSION_REQ) {
+        return { name: 'node', status: 'fail', message: `Node.js ${process.version}`, fix: `Install Node.js ${CONSTANTS.NODE_VERSION_REQ} or newer.` };
+    }
+    return { name: 'node', status: 'ok', message: `Node.js ${process.version}` };
+}
+
+function checkJdk(java: JavaInfo | null, installed: Jdk | null): DoctorCheck {
+    // A suitable JDK that is installed but not on PATH (SDKMAN, /usr/lib/jvm, Gradle toolchains)
+    const useInstalled = installed ? `Use JDK ${installed.version} (${installed.source}): export JAVA_HOME="${installed.home}"` : undefined;
+    if (!java) {
+        return {
+            name: 'jdk', status: 'fail', message: 'No java on PATH',
+            fix: useInstalled ?? `Install JDK ${CONSTANTS.JAVA_VERSION_REQ}+ (https://adoptium.net/temurin/releases/) and add it to PATH.`
+        };
+    }
+    const message = `JDK ${java.version} (${java.vendor})`;
+    if (java.major < CONSTANTS.JAVA_VERSION_REQ) {
+        return { name: 'jdk', status: 'fail', message, fix: useInstalled ?? `Android Gradle Plugin needs JDK ${CONSTANTS.JAVA_VERSION_REQ}+; install it from https://adoptium.net/temurin/releases/.` };
+    }
+    return { name: 'jdk', status: 'ok', message };
+}
+
+async function checkJavaHome(java: JavaInfo | null): Promise<DoctorCheck> {
+    const javaHome = process.env.JAVA_HOME;
+    if (!javaHome) {
+        return {
+            name: 'java-home', status: 'warn', message: 'JAVA_HOME is not set; Gradle uses java from PATH',
+            fix: java?.home ? `export JAVA_HOME="${java.home}"` : undefined
+        };
+    }
+
+    const javaBin = path.join(javaHome, 'bin', process.platform === 'win32' ? 'java.exe' : 'java');
+    const homeJava = fs.existsSync(javaBin) ? await readJavaInfo(javaBin) : null;
+    if (!homeJava) {
+        return { name: 'java-home', status: 'fail', message: `JAVA_HOME (${javaHome}) has no working bin/java`, fix: 'Point JAVA_HOME at a JDK installation directory.' };
+    }
+    if (java && await realpath(homeJava.home) !== await realpath(java.home)) {
+        return {
+            name: 'java-home', status: 'warn',
+            message: `JAVA_HOME is JDK ${homeJava.version}, but java on PATH is JDK ${java.version}`,
+            fix: 'Put $JAVA_HOME/bin first on PATH, or point JAVA_HOME at the JDK you use.'
+        };
+    }
+    if (homeJava.major < CONSTANTS.JAVA_VERSION_REQ) {
+        return { name: 'java-home', status: 'fail', message: `JAVA_HOME is JDK ${homeJava.version}`, fix: `Point JAVA_HOME at JDK ${CONSTANTS.JAVA_VERSION_REQ}+.` };
+    }
+    return { name: 'java-home', status: 'ok', message: `JAVA_HOME is JDK ${homeJava.version}` };
+}
+
+function checkSdkRoot(sdk: SdkRoot): DoctorCheck {
+    if (!sdk.exists) {
+        return {
+            name: 'sdk', status: 'fail', message: `No Android SDK found (looked at ${sdk.path})`,
+            fix: 'Run create-droid to install one, or set ANDROID_HOME to an existing SDK.'
+        };
+    }
+    return { name: 'sdk', status: 'ok', message: `Android SDK at ${sdk.path} (${sdk.source})` };
+}
+
+async function checkPlatforms(sdkPath: string, compileSdks: number[]): Promise<DoctorCheck> {
+    const installed = (await listSdkDir(sdkPath, 'platforms', /^android-(\d+)$/)).sort((a, b) => Number(a) - Number(b));
+    const missing = compileSdks.filter(level => !installed.includes(String(level)));
+    if (missing.length > 0) {
+        return {
+            name: 'platforms', status: 'fail',
+            message: `compileSdk ${missing.join(', ')} not installed (found ${installed.join(', ') || 'none'})`,
+            fix: `sdkmanager ${missing.map(level => `"platforms;android-${level}"`).join(' ')}`
+        };
+    }
+    if (installed.length === 0) {
+        return { name: 'platforms', status: 'warn', message: 'No SDK platforms installed', fix: `sdkmanager "platforms;android-${CONSTANTS.DEFAULTS.COMPILE_SDK}"` };
+    }
+    return { name: 'platforms', status: 'ok', message: `Platforms: android-${installed.join(', android-')}` };
+}
+
+async function checkBuildTools(sdkPath: string, compileSdks: number[]): Promise<DoctorCheck> {
+    const installed = (await listSdkDir(sdkPath, 'build-tools', /^(\d[\w.-]*)$/)).sort(compareVersions);
+    const needed = Math.max(...compileSdks, 0);
+    const newest = installed[installed.length - 1];
+    if (!newest || parseInt(newest, 10) < needed) {
+        const wanted = needed || Number(CONSTANTS.DEFAULTS.COMPILE_SDK);
+        return {
+            name: 'build-tools', status: 'warn',
+            message: newest ? `Newest build-tools ${newest} is older than compileSdk ${needed}` : 'No build-tools installed',
+            fix: `sdkmanager "build-tools;${wanted}.0.0"`
+        };
+    }
+    return { name: 'build-tools', status: 'ok', message: `Build tools: ${installed.join(', ')}` };
+}
+
+function checkAdb(sdkPath: string): DoctorCheck {
+    const adb = path.join(sdkPath, 'platform-tools', process.platform === 'win32' ? 'adb.exe' : 'adb');
+    if (!fs.existsSync(adb)) {
+        return { name: 'adb', status: 'warn', message: 'platform-tools/adb not found; devices cannot be reached', fix: 'sdkmanager "platform-tools"' };
+    }
+    return { name: 'adb', status: 'ok', message: `adb at ${adb}` };
+}
+
+async function checkLicenses(sdkPath: string): Promise<DoctorCheck> {
+    const licenseFile = path.join(sdkPath, 'licenses', 'android-sdk-license');
+    const accepted = fs.existsSync(licenseFile) ? (await fs.readFile(licenseFile, 'utf-8')).split(/\s+/) : [];
+    if (!SDK_LICENSES['android-sdk-license'].some(hash => accepted.includes(hash))) {
+        return { name: 'licenses', status: 'fail', message: 'Android SDK license not accepted', fix: `sdkmanager --sdk_root="${sdkPath}" --licenses` };
+    }
+    return { name: 'licenses', status: 'ok', message: 'SDK licenses accepted' };
+}
+
+async function checkWrapper(projectPath: string): Promise<DoctorCheck> {
+    const jarPath = path.join(projectPath, 'gradle', 'wrapper', 'gradle-wrapper.jar');
+    const propertiesPath = getWrapperPropertiesPath(projectPath);
+    const fix = 'Restore gradle/wrapper from version control, or regenerate it with `npx create-droid gradle set-version <version>`.';
+
+    let jarValid = false;
+    try {
+        jarValid = fs.existsSync(jarPath) && new AdmZip(jarPath).getEntry('org/gradle/wrapper/GradleWrapperMain.class') !== null;
+    } catch (e) {
+        jarValid = false;
+    }
+    if (!jarValid) {
+        return { name: 'wrapper', status: 'fail', message: 'gradle/wrapper/gradle-wrapper.jar is missing or not a Gradle wrapper', fix };
+    }
+
+    const properties = fs.existsSync(propertiesPath) ? await fs.readFile(propertiesPath, 'utf-8') : '';
+    const version = parseWrapperVersion(properties);
+    if (!version) {
+        return { name: 'wrapper', status: 'fail', message: 'gradle-wrapper.properties has no valid distributionUrl', fix };
+    }
+
+    const gradlew = path.join(projectPath, 'gradlew');
+    if (process.platform !== 'win32' && fs.existsSync(gradlew) && ((await fs.stat(gradlew)).mode & 0o111) === 0) {
+        return { name: 'wrapper', status: 'warn', message: `Gradle ${version} wrapper, but gradlew is not executable`, fix: 'chmod +x gradlew' };
+    }
+    if (!/^distributionSha256Sum=/m.test(properties)) {
+        return {
+            name: 'wrapper', status: 'warn', message: `Gradle ${version} wrapper without distributionSha256Sum; the download isn't verified`,
+            fix: `npx create-droid gradle set-version ${version}`
+        };
+    }
+    return { name: 'wrapper', status: 'ok', message: `Gradle wrapper ${version}` };
+}
+
+async function checkLocalProperties(projectPath: string): Promise<DoctorCheck> {
+    const sdkDir = await readSdkDir(projectPath);
+    const fallback = process.env.ANDROID_HOME ?? process.env.ANDROID_SDK_ROOT ?? path.join(getDataDir(), 'sdk');
+    const fix = `Set sdk.dir=${fallback} in local.properties.`;
+
+    if (sdkDir === undefined) {
+        return { name: 'local-properties', status: 'warn', message: 'local.properties has no sdk.dir; Gradle falls back to ANDROID_HOME', fix };
+    }
+    if (!fs.existsSync(path.join(sdkDir, 'platforms')) && !fs.existsSync(path.join(sdkDir, 'cmdline-tools'))) {
+        return { name: 'local-properties', status: 'fail', message: `sdk.dir (${sdkDir}) is not an Android SDK`, fix };
+    }
+    return { name: 'local-properties', status: 'ok', message: `sdk.dir=${sdkDir}` };
+}
+
+async function checkDiskSpace(dir: string): Promise<DoctorCheck> {
+    try {
+        const stats = await fs.promises.statfs(dir);
+        const free = stats.bavail * stats.bsize;
+        const message = `${(free / 1024 ** 3).toFixed(1)} GB free on ${dir}`;
+        if (free < MIN_FREE_BYTES) return { name: 'disk', status: 'fail', message, fix: 'Free up disk space; SDK packages and Gradle caches need several GB.' };
+        if (free < LOW_FREE_BYTES) return { name: 'disk', status: 'warn', message, fix: 'Free up disk space; a first build downloads 2-3 GB.' };
+        return { name: 'disk', status: 'ok', message };
+    } catch (e: any) {
+        return { name: 'disk', status: 'warn', message: `Could not read free space on ${dir}: ${e.message}` };
+    }
+}
+
+async function listSdkDir(sdkPath: string, dir: string, pattern: RegExp): Promise<string[]> {
+    const root = path.join(sdkPath, dir);
+    if (!fs.existsSync(root)) return [];
+    return (await fs.readdir(root)).map(name => name.match(pattern)?.[1]).filter((name): name is string => !!name);
+}
+
+async function realpath(dir: string): Promise<string> {
+    try {
+        return await fs.realpath(dir);
+    } catch (e) {
+        return dir;
+    }
+}
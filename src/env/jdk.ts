@@ -0,0 +1,189 @@
+import fs from 'fs-extra';
+import path from 'path';
+import os from 'os';
+import { execa } from 'execa';
+import * as tar from 'tar';
+import AdmZip from 'adm-zip';
+import { CONSTANTS } from '../utils/constants.js';
+import { logger } from '../utils/logger.js';
+import { getDataDir, getCachedArtifactPath } from '../utils/cache.js';
+import { download, fetchText } from '../utils/download.js';
+
+export interface JavaInfo {
+    version: string;
+    major: number;
+    vendor: string;
+    home: string;
+}
+
+export interface Jdk extends JavaInfo {
+    // Where it was found: JAVA_HOME, PATH, SDKMAN, system, Gradle toolchain or create-droid
+    source: string;
+}
+
+/** Version, vendor and home of a `java` executable, or null when it cannot be run. */
+export async function readJavaInfo(javaCommand: string): Promise<JavaInfo | null> {
+    try {
+        const { stderr, stdout } = await execa(javaCommand, ['-XshowSettings:properties', '-version']);
+        const output = `${stderr}\n${stdout}`;
+        const property = (name: string) => output.match(new RegExp(`^\\s*${name.replace(/\./g, '\\.')} = (.*)$`, 'm'))?.[1].trim();
+
+        const version = property('java.version');
+        if (!version) return null;
+        // "1.8.0_392" is Java 8, "17.0.9" and "21" are 17 and 21
+        const [first, second] = version.split(/[._-]/).map(Number);
+        return {
+            version,
+            major: first === 1 ? second : first,
+            vendor: property('java.vendor') ?? 'unknown vendor',
+            home: property('java.home') ?? ''
+        };
+    } catch (e) {
+        return null;
+    }
+}
+
+/** Directory provisioned JDKs are unpacked into. */
+export function getJdksDir(): string {
+    return path.join(getDataDir(), 'jdks');
+}
+
+/**
+ * Looks for a JDK of at least `minMajor` in JAVA_HOME, on PATH, in SDKMAN, the system JVM
+ * directories, Gradle's toolchain downloads and the JDKs create-droid provisioned.
+ * JAVA_HOME and PATH win when suitable; otherwise the oldest suitable release is picked,
+ * as that is the one the Gradle and AGP versions in use are most likely to support.
+ */
+export async function findJdk(minMajor = CONSTANTS.JAVA_VERSION_REQ): Promise<Jdk | null> {
+    const seen = new Set<string>();
+    const found: Jdk[] = [];
+
+    for (const [home, source] of await candidateHomes()) {
+        const real = await realpath(home);
+        if (seen.has(real)) continue;
+        seen.add(real);
+
+        const java = path.join(home, 'bin', process.platform === 'win32' ? 'java.exe' : 'java');
+        const javac = path.join(home, 'bin', process.platform === 'win32' ? 'javac.exe' : 'javac');
+        // A JRE can run Gradle but not compile, so only full JDKs count
+        if (!fs.existsSync(java) || !fs.existsSync(javac)) continue;
+        const info = await readJavaInfo(java);
+        if (info && info.major >= minMajor) found.push({ ...info, home, source });
+    }
+
+    const preferred = found.find(jdk => jdk.source === 'JAVA_HOME' || jdk.source === 'PATH');
+    return preferred ?? found.sort((a, b) => a.major - b.major)[0] ?? null;
+}
+
+/**
+ * Downloads Eclipse Temurin into the data directory and returns its home. The archive and its
+ * checksum come from the Adoptium API unless CREATE_DROID_JDK_URL (and CREATE_DROID_JDK_SHA256)
+ * point elsewhere, and it is kept in the cache so `--offline` runs can unpack it again.
+ */
+export async function provisionJdk(options: { offline?: boolean } = {}): Promise<string> {
+    const major = CONSTANTS.JAVA_VERSION_REQ;
+    const platform = process.platform === 'darwin' ? 'mac' : process.platform === 'win32' ? 'windows' : 'linux';
+    const arch = process.arch === 'arm64' ? 'aarch64' : 'x64';
+    const dest = path.join(getJdksDir(), `temurin-${major}`);
+
+    if (fs.existsSync(path.join(dest, 'bin', 'javac')) || fs.existsSync(path.join(dest, 'bin', 'javac.exe'))) {
+        return dest;
+    }
+
+    const archivePath = getCachedArtifactPath(`temurin-${major}-${platform}-${arch}${platform === 'windows' ? '.zip' : '.tar.gz'}`);
+
+    if (options.offline || fs.existsSync(archivePath)) {
+        if (!fs.existsSync(archivePath)) {
+            throw new Error(`Offline: ${path.basename(archivePath)} is not cached. Run once online to populate ${path.dirname(archivePath)}.`);
+        }
+        logger.info(`Using cached ${path.basename(archivePath)}`);
+    } else {
+        const { url, sha256 } = await temurinRelease(major, platform, arch);
+        logger.info(`Downloading ${url}...`);
+        await download(url, archivePath, { sha256 });
+    }
+
+    logger.info('Extracting JDK...');
+    const tempDir = `${dest}.extract`;
+    await fs.remove(tempDir);
+    await fs.ensureDir(tempDir);
+    try {
+        if (await isZip(archivePath)) {
+            new AdmZip(archivePath).extractAllTo(tempDir, true);
+        } else {
+            await tar.x({ file: archivePath, cwd: tempDir });
+        }
+
+        // Archives hold a single `jdk-17.0.x+y/` directory; on macOS the home is inside Contents/Home
+        const entries = (await fs.readdir(tempDir)).filter(name => fs.statSync(path.join(tempDir, name)).isDirectory());
+        if (entries.length !== 1) throw new Error('Unknown JDK archive structure');
+        const root = path.join(tempDir, entries[0]);
+        const home = fs.existsSync(path.join(root, 'Contents', 'Home')) ? path.join(root, 'Contents', 'Home') : root;
+        if (!fs.existsSync(path.join(home, 'bin'))) throw new Error('Unknown JDK archive structure');
+
+        await fs.remove(dest);
+        await fs.move(home, dest);
+    } catch (e) {
+        // Don't keep an archive that can't be unpacked for the next run
+        await fs.remove(archivePath);
+        throw e;
+    } finally {
+        await fs.remove(tempDir);
+    }
+    return dest;
+}
+
+// Download link and checksum of the latest Temurin release, or the CREATE_DROID_JDK_URL override
+async function temurinRelease(major: number, platform: string, arch: string): Promise<{ url: string; sha256?: string }> {
+    if (process.env.CREATE_DROID_JDK_URL) {
+        return { url: process.env.CREATE_DROID_JDK_URL, sha256: process.env.CREATE_DROID_JDK_SHA256 };
+    }
+    const query = `architecture=${arch}&image_type=jdk&os=${platform}&vendor=eclipse`;
+    const assets = JSON.parse(await fetchText(`https://api.adoptium.net/v3/assets/latest/${major}/hotspot?${query}`));
+    const binary = assets?.[0]?.binary?.package;
+    if (!binary?.link) throw new Error(`No Temurin ${major} build for ${platform}/${arch}`);
+    return { url: binary.link, sha256: binary.checksum };
+}
+
+async function candidateHomes(): Promise<[string, string][]> {
+    const homes: [string, string][] = [];
+    if (process.env.JAVA_HOME) homes.push([process.env.JAVA_HOME, 'JAVA_HOME']);
+
+    const onPath = await readJavaInfo('java');
+    if (onPath?.home) homes.push([onPath.home, 'PATH']);
+
+    const dirs: [string, string][] = [
+        [path.join(os.homedir(), '.sdkman', 'candidates', 'java'), 'SDKMAN'],
+        ['/usr/lib/jvm', 'system'],
+        ['/Library/Java/JavaVirtualMachines', 'system'],
+        [path.join(process.env.GRADLE_USER_HOME ?? path.join(os.homedir(), '.gradle'), 'jdks'), 'Gradle toolchain'],
+        [getJdksDir(), 'create-droid']
+    ];
+    for (const [dir, source] of dirs) {
+        if (!fs.existsSync(dir)) continue;
+        for (const name of (await fs.readdir(dir)).sort()) {
+            const home = path.join(dir, name);
+            const macHome = path.join(home, 'Contents', 'Home');
+            homes.push([fs.existsSync(macHome) ? macHome : home, source]);
+        }
+    }
+    return homes;
+}
+
+async function isZip(filePath: string): Promise<boolean> {
+    const handle = await fs.open(filePath, 'r');
+    try {
+        const { buffer } = await fs.read(handle, Buffer.alloc(2), 0, 2, 0);
+        return buffer.toString('latin1') === 'PK';
+    } finally {
+        await fs.close(handle);
+    }
+}
+
+async function realpath(dir: string): Promise<string> {
+    try {
+        return await fs.realpath(dir);
+    } catch (e) {
+        return dir;
+    }
+}
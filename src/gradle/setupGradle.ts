@@ -1,55 +1,236 @@
 import fs from 'fs-extra';
 import path from 'path';
+import os from 'os';
+import crypto from 'crypto';
 import { execa } from 'execa';
 import { logger } from '../utils/logger.js';
-import { pipeline } from 'stream/promises';
-import { createWriteStream } from 'fs';
+import AdmZip from 'adm-zip';
+import { CONSTANTS } from '../utils/constants.js';
+import { getCachedArtifactPath } from '../utils/cache.js';
+import { download, fetchText } from '../utils/download.js';
+import { compareVersions } from '../utils/versionRange.js';
+import { PropertiesFile } from '../template/androidFiles.js';
 
-export async function setupGradle(projectPath: string) {
+interface GradleOptions {
+  offline?: boolean;
+  // JDK to start the wrapper with instead of JAVA_HOME / PATH
+  javaHome?: string | null;
+}
+
+export async function setupGradle(projectPath: string, options: GradleOptions = {}) {
   const wrapperDir = path.join(projectPath, 'gradle', 'wrapper');
   await fs.ensureDir(wrapperDir);
 
   const wrapperJarPath = path.join(wrapperDir, 'gradle-wrapper.jar');
   const gradlewPath = path.join(projectPath, 'gradlew');
-  
-  // 1. Ensure gradle-wrapper.jar exists
-  if (!fs.existsSync(wrapperJarPath)) {
-      await ensureWrapperJar(wrapperJarPath);
+  const propertiesPath = getWrapperPropertiesPath(projectPath);
+
+  // 1. gradle-wrapper.properties, gradlew (POSIX) and gradlew.bat (Windows); these need no download
+  if (!fs.existsSync(propertiesPath)) {
+      await fs.writeFile(propertiesPath, DEFAULT_WRAPPER_PROPERTIES);
   }
+  await writeWrapperScripts(projectPath);
 
-  // 2. Write gradlew script (Shell) - Full standard script
-  if (!fs.existsSync(gradlewPath)) {
-      await fs.writeFile(gradlewPath, GRADLEW_SCRIPT.trim(), { mode: 0o755 });
+  // 2. Wrapper jar and distribution checksum of the Gradle version in gradle-wrapper.properties
+  const properties = await fs.readFile(propertiesPath, 'utf-8');
+  const version = parseWrapperVersion(properties) ?? CONSTANTS.DEFAULTS.GRADLE_VERSION;
+  if (!fs.existsSync(wrapperJarPath) || !/^distributionSha256Sum=/m.test(properties)) {
+      try {
+          await pinWrapper(projectPath, version, options.offline);
+      } catch (e: any) {
+          logger.warn(`Skipped the Gradle wrapper jar: ${e.message}`);
+          logger.warn(`Add it once online with: npx create-droid gradle set-version ${version}`);
+          return;
+      }
   }
 
-  // 3. Make executable
-  await fs.chmod(gradlewPath, 0o755);
+  // 3. Verify Wrapper (Dry Run)
+  if (options.offline) {
+    logger.info('Offline: skipping Gradle wrapper verification.');
+    return;
+  }
 
-  // 4. Verify Wrapper (Dry Run)
   logger.info(`Verifying Gradle setup...`);
   try {
-    await execa(gradlewPath, ['--version'], { cwd: projectPath, stdio: 'inherit' });
+    const env = options.javaHome ? { JAVA_HOME: options.javaHome } : undefined;
+    await execa(gradlewPath, ['--version'], { cwd: projectPath, stdio: 'inherit', env });
     logger.success('Gradle wrapper verified.');
   } catch (e) {
     logger.warn('Gradle wrapper verification failed. You may need to run it manually.');
   }
 }
 
-async function ensureWrapperJar(destPath: string) {
-    logger.step('Downloading gradle-wrapper.jar...');
-    // Reliable source from Google's sample
-    const WRAPPER_URL = 'https://raw.githubusercontent.com/android/nowinandroid/main/gradle/wrapper/gradle-wrapper.jar';
-    
+export function getWrapperPropertiesPath(projectPath: string): string {
+    return path.join(projectPath, 'gradle', 'wrapper', 'gradle-wrapper.properties');
+}
+
+/** Gradle version in a `gradle-wrapper.properties` file's `distributionUrl`. */
+export function parseWrapperVersion(properties: string): string | null {
+    return properties.match(/^distributionUrl=.*gradle-(.+)-(?:bin|all)\.zip/m)?.[1] ?? null;
+}
+
+export function setWrapperVersion(properties: string, version: string): string {
+    return properties.replace(/^(distributionUrl=.*gradle-)(.+)(-(?:bin|all)\.zip)/m, `$1${version}$3`);
+}
+
+/**
+ * Points the project's wrapper at Gradle `version`: `distributionUrl` and its
+ * `distributionSha256Sum` in gradle-wrapper.properties, the wrapper jar of that release,
+ * and fresh gradlew / gradlew.bat scripts.
+ * Offline, cached copies are used; without a cached checksum the property is left out.
+ */
+export async function setGradleVersion(projectPath: string, version: string, options: { offline?: boolean } = {}) {
+    const propertiesPath = getWrapperPropertiesPath(projectPath);
+    if (!fs.existsSync(propertiesPath)) {
+        await fs.ensureDir(path.dirname(propertiesPath));
+        await fs.writeFile(propertiesPath, DEFAULT_WRAPPER_PROPERTIES);
+    }
+
+    await pinWrapper(projectPath, version, options.offline);
+    await writeWrapperScripts(projectPath, { overwrite: true });
+}
+
+// Fetches before writing, so a failed download leaves gradle-wrapper.properties as it was
+async function pinWrapper(projectPath: string, version: string, offline = false) {
+    const propertiesPath = getWrapperPropertiesPath(projectPath);
+    const jarPath = await resolveWrapperJar(version, offline);
+    const sha256 = await distributionChecksum(version, offline);
+
+    await fs.writeFile(propertiesPath, updateWrapperProperties(await fs.readFile(propertiesPath, 'utf-8'), version, sha256));
+    await installWrapperJar(projectPath, jarPath);
+}
+
+/** Writes gradlew and gradlew.bat; existing ones (e.g. from a template) are kept unless `overwrite`. */
+async function writeWrapperScripts(projectPath: string, options: { overwrite?: boolean } = {}) {
+    const gradlewPath = path.join(projectPath, 'gradlew');
+    if (options.overwrite || !fs.existsSync(gradlewPath)) {
+        await fs.writeFile(gradlewPath, GRADLEW_SCRIPT.trim());
+    }
+    const gradlewBatPath = path.join(projectPath, 'gradlew.bat');
+    if (options.overwrite || !fs.existsSync(gradlewBatPath)) {
+        await fs.writeFile(gradlewBatPath, GRADLEW_BAT_SCRIPT.trim().replace(/\n/g, '\r\n') + '\r\n');
+    }
+    await fs.chmod(gradlewPath, 0o755);
+}
+
+/** gradle-wrapper.properties pointing at `version`, with its checksum or, when unknown, without one. */
+export function updateWrapperProperties(content: string, version: string, sha256: string | null): string {
+    if (!sha256) logger.warn(`Offline: no checksum cached for Gradle ${version}; distributionSha256Sum is not set.`);
+    const properties = new PropertiesFile(setWrapperVersion(content, version));
+    if (sha256) {
+        properties.set('distributionSha256Sum', sha256);
+    } else {
+        properties.remove('distributionSha256Sum');
+    }
+    return properties.toString();
+}
+
+export async function installWrapperJar(projectPath: string, jarPath: string) {
+    await fs.copy(jarPath, path.join(path.dirname(getWrapperPropertiesPath(projectPath)), 'gradle-wrapper.jar'), { overwrite: true });
+}
+
+// gradle-<version>-wrapper.jar in the cache, taken from that version's distribution
+export async function resolveWrapperJar(version: string, offline = false): Promise<string> {
+    const cachedJar = getCachedArtifactPath(`gradle-${version}-wrapper.jar`);
+    if (fs.existsSync(cachedJar)) return cachedJar;
+
+    if (offline) {
+        // Any wrapper jar can start any distribution, so an older cached one still works
+        const cacheDir = path.dirname(cachedJar);
+        const cached = fs.existsSync(cacheDir)
+            ? (await fs.readdir(cacheDir)).filter(name => /^gradle-(.+-)?wrapper\.jar$/.test(name)).sort(compareJarVersions)
+            : [];
+        if (cached.length === 0) {
+            throw new Error(`Offline: gradle-${version}-wrapper.jar is not cached. Run once online to populate ${cacheDir}.`);
+        }
+        logger.warn(`Offline: using cached ${cached[cached.length - 1]} for Gradle ${version}.`);
+        return path.join(cacheDir, cached[cached.length - 1]);
+    }
+
+    logger.step(`Downloading Gradle ${version} for its wrapper...`);
+    const expected = (await fetchText(`${DISTRIBUTIONS_URL}/gradle-${version}-wrapper.jar.sha256`)).trim();
+    const zipName = `gradle-${version}-bin.zip`;
+    const zipPath = getCachedArtifactPath(zipName);
+    await download(`${DISTRIBUTIONS_URL}/${zipName}`, zipPath, { sha256: await distributionChecksum(version) ?? undefined });
+
+    try {
+        const jar = extractWrapperJar(zipPath);
+        const actual = crypto.createHash('sha256').update(jar).digest('hex');
+        if (actual !== expected) {
+            throw new Error(`The wrapper jar in ${zipName} doesn't match Gradle's published checksum (${expected}, got ${actual}).`);
+        }
+        await fs.writeFile(`${cachedJar}.part`, jar);
+        await fs.move(`${cachedJar}.part`, cachedJar, { overwrite: true });
+        await seedGradleDistribution(zipPath, version);
+    } finally {
+        await fs.remove(zipPath);
+    }
+    return cachedJar;
+}
+
+// sha256 of gradle-<version>-bin.zip as Gradle publishes it, cached for offline runs
+export async function distributionChecksum(version: string, offline = false): Promise<string | null> {
+    const cached = getCachedArtifactPath(`gradle-${version}-bin.zip.sha256`);
+    if (fs.existsSync(cached)) return (await fs.readFile(cached, 'utf-8')).trim();
+    if (offline) return null;
+
+    const sha256 = (await fetchText(`${DISTRIBUTIONS_URL}/gradle-${version}-bin.zip.sha256`)).trim();
+    if (!/^[0-9a-f]{64}$/.test(sha256)) throw new Error(`Unexpected checksum for Gradle ${version}: ${sha256.slice(0, 80)}`);
+    await fs.ensureDir(path.dirname(cached));
+    await fs.writeFile(cached, sha256);
+    return sha256;
+}
+
+// The `wrapper` task copies a gradle-wrapper.jar resource bundled in one of the distribution's jars
+function extractWrapperJar(zipPath: string): Buffer {
+    const jars = new AdmZip(zipPath).getEntries().filter(entry => /\/lib\/(plugins\/)?[^/]+\.jar$/.test(entry.entryName));
+    // Look where it usually is first
+    const likely = (name: string) => /wrapper|build-init/.test(path.basename(name)) ? 0 : 1;
+    jars.sort((a, b) => likely(a.entryName) - likely(b.entryName));
+
+    for (const entry of jars) {
+        const resource = new AdmZip(entry.getData()).getEntry('gradle-wrapper.jar');
+        if (resource) return resource.getData();
+    }
+    throw new Error(`No gradle-wrapper.jar found in ${path.basename(zipPath)}`);
+}
+
+/**
+ * Moves the downloaded distribution to where the wrapper looks for it
+ * (`wrapper/dists/<name>/<base-36 md5 of the URL>/<name>.zip`), so the first build doesn't
+ * fetch it again. The wrapper checks it against distributionSha256Sum before unpacking.
+ */
+async function seedGradleDistribution(zipPath: string, version: string) {
+    const gradleUserHome = process.env.GRADLE_USER_HOME ?? path.join(os.homedir(), '.gradle');
+    const name = `gradle-${version}-bin`;
+    const url = `${DISTRIBUTIONS_URL}/${name}.zip`;
+    const hash = BigInt(`0x${crypto.createHash('md5').update(url).digest('hex')}`).toString(36);
+    const target = path.join(gradleUserHome, 'wrapper', 'dists', name, hash, `${name}.zip`);
+    if (fs.existsSync(path.dirname(target))) return;
+
     try {
-        const response = await fetch(WRAPPER_URL);
-        if (!response.ok) throw new Error(`Failed to fetch wrapper jar: ${response.statusText}`);
-        if (!response.body) throw new Error('No body in response');
-        await pipeline(response.body as any, createWriteStream(destPath));
-    } catch (e: any) {
-        throw new Error(`Failed to download gradle-wrapper.jar. Error: ${e.message}`);
+        await fs.ensureDir(path.dirname(target));
+        await fs.move(zipPath, target);
+    } catch (e) {
+        // Only saves a download; the wrapper fetches the distribution itself otherwise
     }
 }
 
+// gradle-<version>-wrapper.jar by version; the unversioned jar older releases cached sorts first
+function compareJarVersions(a: string, b: string): number {
+    const version = (name: string) => name.match(/^gradle-(.+)-wrapper\.jar$/)?.[1] ?? '0';
+    return compareVersions(version(a), version(b));
+}
+
+const DISTRIBUTIONS_URL = 'https://services.gradle.org/distributions';
+
+const DEFAULT_WRAPPER_PROPERTIES = `distributionBase=GRADLE_USER_HOME
+distributionPath=wrapper/dists
+distributionUrl=https\\://services.gradle.org/distributions/gradle-${CONSTANTS.DEFAULTS.GRADLE_VERSION}-bin.zip
+zipStoreBase=GRADLE_USER_HOME
+zipStorePath=wrapper/dists
+`;
+
 // Standard POSIX gradlew script (simplified but fully functional variant)
 const GRADLEW_SCRIPT = `#!/bin/sh
 
@@ -226,3 +407,98 @@ fi
 # Collect all arguments for the java command
 exec "$JAVACMD" $DEFAULT_JVM_OPTS $JAVA_OPTS $GRADLE_OPTS "-Dorg.gradle.appname=$APP_BASE_NAME" -classpath "$CLASSPATH" org.gradle.wrapper.GradleWrapperMain "$@"
 `;
+
+// Standard Windows gradlew.bat script, written with CRLF line endings
+const GRADLEW_BAT_SCRIPT = `@rem
+@rem Copyright 2015 the original author or authors.
+@rem
+@rem Licensed under the Apache License, Version 2.0 (the "License");
+@rem you may not use this file except in compliance with the License.
+@rem You may obtain a copy of the License at
+@rem
+@rem      https://www.apache.org/licenses/LICENSE-2.0
+@rem
+@rem Unless required by applicable law or agreed to in writing, software
+@rem distributed under the License is distributed on an "AS IS" BASIS,
+@rem WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+@rem See the License for the specific language governing permissions and
+@rem limitations under the License.
+@rem
+
+@if "%DEBUG%"=="" @echo off
+@rem ##########################################################################
+@rem
+@rem  Gradle startup script for Windows
+@rem
+@rem ##########################################################################
+
+@rem Set local scope for the variables with windows NT shell
+if "%OS%"=="Windows_NT" setlocal
+
+set DIRNAME=%~dp0
+if "%DIRNAME%"=="" set DIRNAME=.
+@rem This is normally unused
+set APP_BASE_NAME=%~n0
+set APP_HOME=%DIRNAME%
+
+@rem Resolve any "." and ".." in APP_HOME to make it shorter.
+for %%i in ("%APP_HOME%") do set APP_HOME=%%~fi
+
+@rem Add default JVM options here. You can also use JAVA_OPTS and GRADLE_OPTS to pass JVM options to this script.
+set DEFAULT_JVM_OPTS="-Xmx64m" "-Xms64m"
+
+@rem Find java.exe
+if defined JAVA_HOME goto findJavaFromJavaHome
+
+set JAVA_EXE=java.exe
+%JAVA_EXE% -version >NUL 2>&1
+if %ERRORLEVEL% equ 0 goto execute
+
+echo. 1>&2
+echo ERROR: JAVA_HOME is not set and no 'java' command could be found in your PATH. 1>&2
+echo. 1>&2
+echo Please set the JAVA_HOME variable in your environment to match the 1>&2
+echo location of your Java installation. 1>&2
+
+goto fail
+
+:findJavaFromJavaHome
+set JAVA_HOME=%JAVA_HOME:"=%
+set JAVA_EXE=%JAVA_HOME%/bin/java.exe
+
+if exist "%JAVA_EXE%" goto execute
+
+echo. 1>&2
+echo ERROR: JAVA_HOME is set to an invalid directory: %JAVA_HOME% 1>&2
+echo. 1>&2
+echo Please set the JAVA_HOME variable in your environment to match the 1>&2
+echo location of your Java installation. 1>&2
+
+goto fail
+
+:execute
+@rem Setup the command line
+
+set CLASSPATH=%APP_HOME%\\gradle\\wrapper\\gradle-wrapper.jar
+
+
+@rem Execute Gradle
+"%JAVA_EXE%" %DEFAULT_JVM_OPTS% %JAVA_OPTS% %GRADLE_OPTS% "-Dorg.gradle.appname=%APP_BASE_NAME%" -classpath "%CLASSPATH%" org.gradle.wrapper.GradleWrapperMain %*
+
+:end
+@rem End local scope for the variables with windows NT shell
+if %ERRORLEVEL% equ 0 goto mainEnd
+
+:fail
+rem Set variable GRADLE_EXIT_CONSOLE if you need the _script_ return code instead of
+rem the _cmd.exe /c_ return code!
+set EXIT_CODE=%ERRORLEVEL%
+if %EXIT_CODE% equ 0 set EXIT_CODE=1
+if not ""=="%GRADLE_EXIT_CONSOLE%" exit %EXIT_CODE%
+exit /b %EXIT_CODE%
+
+:mainEnd
+if "%OS%"=="Windows_NT" endlocal
+
+:omega
+`;
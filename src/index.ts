@@ -1,67 +1,211 @@
 import prompts from 'prompts';
+import kleur from 'kleur';
 import { logger } from './utils/logger.js';
 import { checkEnv } from './env/checkEnv.js';
-import { installSdk } from './sdk/installSdk.js';
+import { findJdk } from './env/jdk.js';
+import { runDoctor, DoctorCheck } from './env/doctor.js';
+import { installSdk, getSdkPath, runSdkManager } from './sdk/installSdk.js';
+import { readProjectSdkPackages, listInstalledPackages, resolveSdkRoot, SDK_PACKAGE_PATTERN } from './sdk/sdkPackages.js';
 import { generateProject } from './template/generateProject.js';
-import { setupGradle } from './gradle/setupGradle.js';
-import { AddonManager } from './template/addonManager.js';
+import { setupGradle, setGradleVersion, getWrapperPropertiesPath, parseWrapperVersion } from './gradle/setupGradle.js';
+import { AddonManager, AddonInstallError, FileChange } from './template/addonManager.js';
 import { VersionResolver } from './utils/versionResolver.js';
-import { CONSTANTS } from './utils/constants.js';
+import { parseArgs, getString, getList, ParsedArgs } from './utils/args.js';
+import { validatePackageName, defaultPackageName } from './utils/packageName.js';
+import { createUnifiedDiff, colorizeDiff } from './utils/diff.js';
+import { readLockfile, getToolVersion, Lockfile, LOCKFILE_NAME } from './template/lockfile.js';
+import { ADDON_MANIFEST_NAME, parseAddonManifest } from './template/addonManifest.js';
+import { createModule, listModules, parseModulePath, readSdkLevels, MODULE_TEMPLATES, ModuleType } from './template/modules.js';
+import { VersionCatalog } from './template/versionCatalog.js';
+import { findUpgrades, applyUpgrades, CatalogUpgrade } from './template/catalogUpgrade.js';
+import { isExternalTemplate, resolveTemplate, defaultPromptValue, ExternalTemplate } from './template/templateSource.js';
 import path from 'path';
 import fs from 'fs-extra';
 
+const TEMPLATE_CHOICES = [
+  { title: 'Jetpack Compose (Mobile)', value: 'compose', description: 'Recommended for phone/tablet apps' },
+  { title: 'Compose with Navigation', value: 'mobile-compose-navigation', description: 'Includes Navigation, BottomBar, Screens' },
+  { title: 'Compose for TV', value: 'tv-compose', description: 'Optimized for Android TV (Leanback)' },
+  { title: 'Compose for Wear OS', value: 'wear-compose', description: 'Standalone watch app with Wear Compose Material' },
+  { title: 'Compose Library', value: 'compose-library', description: 'Scaffold for publishing UI libraries' },
+  { title: 'Kotlin Multiplatform', value: 'kmp', description: 'Shared KMP module (Android + JVM) used by an Android app' },
+  { title: 'XML Views (Legacy)', value: 'views', description: 'Classic View-based Android development' }
+];
+
+const LIBRARY_CHOICES = [
+  { title: 'Coil', value: 'coil', description: 'Image loading for Compose' },
+  { title: 'Hilt', value: 'hilt', description: 'Dependency Injection (includes KSP & App setup)' },
+  { title: 'Retrofit', value: 'retrofit', description: 'Type-safe HTTP client' },
+  { title: 'Ktor Client', value: 'ktor', description: 'Multiplatform HTTP client' },
+  { title: 'Kotlinx Serialization', value: 'serialization', description: 'Kotlin JSON serialization' },
+  { title: 'Room Database', value: 'room', description: 'SQLite object mapping library' },
+  { title: 'DataStore', value: 'datastore', description: 'Modern alternative to SharedPreferences' },
+  { title: 'Glance Widget', value: 'glance', description: 'Home screen app widget with Jetpack Glance' }
+];
+
+const SCAFFOLD_FLAGS = [
+  'yes', 'offline', 'trust', 'lock', 'config', 'name', 'template', 'ui', 'libraries', 'package',
+  'min-sdk', 'target-sdk', 'git', 'modular', 'convention-plugins', 'sdk-path'
+];
+
+// Answers that can be supplied up front through flags or a `--config` file.
+interface ScaffoldAnswers {
+  projectName?: string;
+  template?: string;
+  libraries?: string[];
+  packageName?: string;
+  minSdk?: string;
+  targetSdk?: string;
+  git?: boolean;
+  modular?: boolean;
+  conventionPlugins?: boolean;
+  sdkPath?: string;
+  // Answers to a user template's `template.json` prompts
+  templateVariables?: Record<string, string>;
+}
+
 export async function run(args: string[]) {
-  console.log('Debug: run started with args:', args);
   const command = args[0];
 
   if (command === 'install' || command === 'add') {
-    const pkgName = args[1];
-    await handleInstall(pkgName);
+    const { positionals, flags } = parseCommandArgs(args.slice(1), ['offline', 'dry-run', 'module', 'registry', 'trust', 'sha256']);
+    await handleInstall(positionals[0], {
+      offline: flags.offline === true,
+      dryRun: flags['dry-run'] === true,
+      module: getString(flags, 'module'),
+      registry: getString(flags, 'registry'),
+      trust: flags.trust === true,
+      sha256: getString(flags, 'sha256')
+    });
+    return;
+  }
+
+  if (command === 'module') {
+    const { positionals, flags } = parseCommandArgs(args.slice(1), ['type', 'consumer']);
+    await handleModule(positionals[0], positionals[1], { type: getString(flags, 'type'), consumers: getList(flags, 'consumer') });
+    return;
+  }
+
+  if (command === 'list' || command === 'ls') {
+    const { flags } = parseCommandArgs(args.slice(1), ['registry', 'module', 'offline']);
+    await handleList({ registry: getString(flags, 'registry'), module: getString(flags, 'module'), offline: flags.offline === true });
+    return;
+  }
+
+  if (command === 'remove' || command === 'uninstall') {
+    const { positionals, flags } = parseCommandArgs(args.slice(1), ['force', 'module']);
+    await handleRemove(positionals[0], { force: flags.force === true, module: getString(flags, 'module') });
+    return;
+  }
+
+  if (command === 'doctor') {
+    const { flags } = parseCommandArgs(args.slice(1), ['json']);
+    await handleDoctor({ json: flags.json === true });
+    return;
+  }
+
+  if (command === 'sdk') {
+    const { positionals, flags } = parseCommandArgs(args.slice(1), ['sdk-path', 'offline']);
+    await handleSdk(positionals[0], positionals.slice(1), { sdkPath: getString(flags, 'sdk-path'), offline: flags.offline === true });
+    return;
+  }
+
+  if (command === 'gradle') {
+    const { positionals, flags } = parseCommandArgs(args.slice(1), ['offline']);
+    await handleGradle(positionals[0], positionals[1], { offline: flags.offline === true });
+    return;
+  }
+
+  if (command === 'upgrade') {
+    const { flags } = parseCommandArgs(args.slice(1), ['all', 'only', 'dry-run', 'offline']);
+    await handleUpgrade({
+      all: flags.all === true,
+      only: getList(flags, 'only'),
+      dryRun: flags['dry-run'] === true,
+      offline: flags.offline === true
+    });
     return;
   }
 
   logger.banner();
 
   // 1. Collect Input
-  let targetDir = args[0];
-  let uiTypeArg = args.find((_, i) => args[i-1] === '--ui' || args[i-1] === '--template');
-  let skipPrompts = args.includes('-y') || args.includes('--yes');
+  let parsed: ParsedArgs;
+  let answers: ScaffoldAnswers;
+  try {
+    parsed = parseArgs(args, SCAFFOLD_FLAGS);
+    answers = await collectAnswers(parsed);
+  } catch (e: any) {
+    logger.error(e.message);
+    process.exit(1);
+  }
+  const skipPrompts = parsed.flags.yes === true;
+  const offline = parsed.flags.offline === true;
+
+  let lock: Lockfile | undefined;
+  const lockPath = getString(parsed.flags, 'lock');
+  if (lockPath) {
+    try {
+      lock = await readLockfile(path.resolve(process.cwd(), lockPath));
+    } catch (e: any) {
+      logger.error(e.message);
+      process.exit(1);
+    }
+    const toolVersion = await getToolVersion();
+    if (lock.toolVersion !== toolVersion) {
+      logger.warn(`Lockfile was written by create-droid ${lock.toolVersion}, running ${toolVersion}.`);
+    }
+    logger.info(`Replaying versions from ${lockPath}`);
+    answers.template ??= lock.template;
+    answers.libraries ??= lock.addons;
+  }
 
-  const defaultProjectName = targetDir || 'android-app';
+  let external: ExternalTemplate | undefined;
+  if (answers.template && isExternalTemplate(answers.template)) {
+    try {
+      external = await resolveTemplate(answers.template, { offline });
+    } catch (e: any) {
+      logger.error(e.message);
+      process.exit(1);
+    }
+  }
+  const defaultAddons = external?.manifest.addons ?? [];
+
+  const defaultProjectName = answers.projectName || 'android-app';
 
   const response = await prompts([
     {
-      type: (targetDir && skipPrompts) ? null : 'text',
+      type: (answers.projectName || skipPrompts) ? null : 'text',
       name: 'projectName',
       message: 'Project name:',
       initial: defaultProjectName
     },
     {
-      type: (uiTypeArg && skipPrompts) ? null : 'select',
+      type: (answers.packageName || skipPrompts) ? null : 'text',
+      name: 'packageName',
+      message: 'Package name:',
+      initial: (_prev: any, values: any) => defaultPackageName(values.projectName || defaultProjectName),
+      validate: (value: string) => validatePackageName(value)
+    },
+    {
+      type: (answers.template || skipPrompts) ? null : 'select',
       name: 'uiType',
       message: 'Select Template:',
-      choices: [
-        { title: 'Jetpack Compose (Mobile)', value: 'compose', description: 'Recommended for phone/tablet apps' },
-        { title: 'Compose with Navigation', value: 'mobile-compose-navigation', description: 'Includes Navigation, BottomBar, Screens' },
-        { title: 'Compose for TV', value: 'tv-compose', description: 'Optimized for Android TV (Leanback)' },
-        { title: 'Compose Library', value: 'compose-library', description: 'Scaffold for publishing UI libraries' },
-        { title: 'XML Views (Legacy)', value: 'views', description: 'Classic View-based Android development' }
-      ],
+      choices: TEMPLATE_CHOICES,
       initial: 0
     },
     {
-        type: skipPrompts ? null : 'multiselect',
+      type: (_prev: any, values: any) =>
+        (answers.modular !== undefined || skipPrompts || (values.uiType || answers.template) === 'compose-library') ? null : 'confirm',
+      name: 'modular',
+      message: 'Use a modular layout (:app, :core:data, :core:ui, :feature:home)?',
+      initial: false
+    },
+    {
+        type: (answers.libraries || skipPrompts) ? null : 'multiselect',
         name: 'libraries',
         message: 'Select Additional Libraries:',
-        choices: [
-            { title: 'Coil', value: 'coil', description: 'Image loading for Compose' },
-            { title: 'Hilt', value: 'hilt', description: 'Dependency Injection (includes KSP & App setup)' },
-            { title: 'Retrofit', value: 'retrofit', description: 'Type-safe HTTP client' },
-            { title: 'Ktor Client', value: 'ktor', description: 'Multiplatform HTTP client' },
-            { title: 'Kotlinx Serialization', value: 'serialization', description: 'Kotlin JSON serialization' },
-            { title: 'Room Database', value: 'room', description: 'SQLite object mapping library' },
-            { title: 'DataStore', value: 'datastore', description: 'Modern alternative to SharedPreferences' }
-        ],
+        choices: LIBRARY_CHOICES.map(choice => ({ ...choice, selected: defaultAddons.includes(choice.value) })),
         instructions: false
     }
   ], {
@@ -71,43 +215,199 @@ export async function run(args: string[]) {
     }
   });
 
-  const projectName = response.projectName || targetDir || defaultProjectName;
+  const templateVariables: Record<string, string> = { ...answers.templateVariables };
+  for (const prompt of external?.manifest.prompts ?? []) {
+    if (templateVariables[prompt.name] !== undefined) continue;
+    if (skipPrompts) {
+      const value = defaultPromptValue(prompt);
+      if (value !== undefined) templateVariables[prompt.name] = value;
+      continue;
+    }
+    const { value } = await prompts({
+      type: prompt.type,
+      name: 'value',
+      message: prompt.message,
+      initial: prompt.type === 'select' ? Math.max(prompt.choices!.indexOf(String(prompt.initial)), 0) : prompt.initial as any,
+      choices: prompt.choices?.map(choice => ({ title: choice, value: choice }))
+    }, {
+      onCancel: () => {
+        logger.error('Operation cancelled');
+        process.exit(0);
+      }
+    });
+    templateVariables[prompt.name] = String(value);
+  }
+
+  const projectName = response.projectName || defaultProjectName;
   const projectPath = path.resolve(process.cwd(), projectName);
-  const uiType = response.uiType || uiTypeArg || 'compose';
-  const selectedLibs = response.libraries || [];
-
-  console.log(`Debug: projectName=${projectName}, projectPath=${projectPath}, uiType=${uiType}`);
-
-  // 2. Validate Environment
-  logger.step('Checking Environment...');
-  await checkEnv();
-
-  // 3. Setup Android SDK
-  logger.step('Setting up Android SDK...');
-  const sdkPath = await installSdk();
-
-  // 4. Generate Project Files
-  logger.step(`Scaffolding project in ${projectName}...`);
-  await generateProject({
-    projectPath,
-    projectName,
-    uiType,
-    sdkPath,
-    libraries: selectedLibs
-  });
+  const uiType = response.uiType || answers.template || 'compose';
+  const selectedLibs = response.libraries || answers.libraries || defaultAddons;
+  const packageName = response.packageName || answers.packageName || defaultPackageName(projectName);
+  const modular = response.modular ?? answers.modular ?? false;
+
+  let javaHome: string | null;
+  try {
+    // 2. Validate Environment
+    logger.step('Checking Environment...');
+    javaHome = await checkEnv({ offline, yes: skipPrompts });
 
-  // 5. Setup Gradle Wrapper
-  logger.step('Configuring Gradle...');
-  await setupGradle(projectPath);
+    // 3. Generate Project Files
+    const sdkPath = getSdkPath(answers.sdkPath);
+    logger.step(`Scaffolding project in ${projectName}...`);
+    await generateProject({
+      projectPath,
+      projectName,
+      uiType,
+      sdkPath,
+      libraries: selectedLibs,
+      packageName,
+      minSdk: answers.minSdk,
+      targetSdk: answers.targetSdk,
+      git: answers.git,
+      modular,
+      conventionPlugins: answers.conventionPlugins,
+      offline,
+      javaHome,
+      lockedVersions: lock?.versions,
+      template: external,
+      templateVariables,
+      trustRecipes: parsed.flags.trust === true
+    });
+
+    // 4. Setup Android SDK with the platforms the resolved compileSdk and the addons need
+    logger.step('Setting up Android SDK...');
+    await installSdk({
+      sdkPath: answers.sdkPath,
+      offline,
+      javaHome,
+      packages: await readProjectSdkPackages(projectPath, external?.manifest.sdkPackages)
+    });
+
+    // 5. Setup Gradle Wrapper
+    logger.step('Configuring Gradle...');
+    await setupGradle(projectPath, { offline, javaHome });
+  } catch (e: any) {
+    logger.error(e.message);
+    logger.info(`The project in ${projectName} may be incomplete.`);
+    process.exit(1);
+  }
 
   logger.success(`Project created at ${projectPath}`);
   logger.info('To get started:');
   console.log(`  cd ${projectName}`);
+  if (javaHome) {
+    // The wrapper itself needs a java to start before gradle.properties picks the daemon JDK
+    console.log(`  export JAVA_HOME="${javaHome}"`);
+  }
   console.log(`  ./gradlew installDebug`);
   console.log(`  npm run add  # to add more libraries`);
 }
 
-async function handleInstall(pkgName: string | undefined) {
+function parseCommandArgs(args: string[], knownFlags: string[]): ParsedArgs {
+  try {
+    return parseArgs(args, knownFlags);
+  } catch (e: any) {
+    logger.error(e.message);
+    process.exit(1);
+  }
+}
+
+async function collectAnswers({ positionals, flags }: ParsedArgs): Promise<ScaffoldAnswers> {
+  let fromConfig: ScaffoldAnswers = {};
+  const configPath = getString(flags, 'config');
+  if (configPath) {
+    const resolved = path.resolve(process.cwd(), configPath);
+    if (!fs.existsSync(resolved)) {
+      throw new Error(`Config file not found: ${resolved}`);
+    }
+    try {
+      fromConfig = normalizeAnswers(await fs.readJSON(resolved));
+    } catch (e: any) {
+      throw new Error(`Invalid config file ${configPath}: ${e.message}`);
+    }
+  }
+
+  const fromFlags = normalizeAnswers({
+    projectName: positionals[0] ?? getString(flags, 'name'),
+    template: getString(flags, 'template', 'ui'),
+    libraries: getList(flags, 'libraries'),
+    packageName: getString(flags, 'package'),
+    minSdk: getString(flags, 'min-sdk'),
+    targetSdk: getString(flags, 'target-sdk'),
+    git: typeof flags.git === 'boolean' ? flags.git : undefined,
+    modular: typeof flags.modular === 'boolean' ? flags.modular : undefined,
+    conventionPlugins: typeof flags['convention-plugins'] === 'boolean' ? flags['convention-plugins'] : undefined,
+    sdkPath: getString(flags, 'sdk-path')
+  });
+
+  const answers: ScaffoldAnswers = { ...fromConfig };
+  for (const [key, value] of Object.entries(fromFlags)) {
+    if (value !== undefined) (answers as any)[key] = value;
+  }
+
+  if (answers.template && !isExternalTemplate(answers.template) && !TEMPLATE_CHOICES.some(t => t.value === answers.template)) {
+    throw new Error(`Unknown template "${answers.template}". Available: ${TEMPLATE_CHOICES.map(t => t.value).join(', ')}, or a directory, tarball or git URL`);
+  }
+  if (answers.modular && answers.template === 'compose-library') {
+    throw new Error('The modular layout needs an app template, not compose-library');
+  }
+  if (answers.packageName) {
+    const valid = validatePackageName(answers.packageName);
+    if (valid !== true) throw new Error(`Invalid package name "${answers.packageName}": ${valid}`);
+  }
+  for (const key of ['minSdk', 'targetSdk'] as const) {
+    if (answers[key] !== undefined && !/^\d+$/.test(answers[key]!)) {
+      throw new Error(`${key} must be an API level number, got "${answers[key]}"`);
+    }
+  }
+  if (answers.sdkPath) {
+    answers.sdkPath = path.resolve(process.cwd(), answers.sdkPath);
+  }
+
+  return answers;
+}
+
+function normalizeAnswers(raw: Record<string, any>): ScaffoldAnswers {
+  const libraries = typeof raw.libraries === 'string'
+    ? raw.libraries.split(',').map((l: string) => l.trim()).filter(Boolean)
+    : raw.libraries;
+
+  if (libraries !== undefined && !Array.isArray(libraries)) {
+    throw new Error('"libraries" must be an array or a comma-separated string');
+  }
+  for (const key of ['git', 'modular', 'conventionPlugins']) {
+    if (raw[key] !== undefined && typeof raw[key] !== 'boolean') {
+      throw new Error(`"${key}" must be true or false, got ${JSON.stringify(raw[key])}`);
+    }
+  }
+  if (raw.templateVariables !== undefined && (typeof raw.templateVariables !== 'object' || Array.isArray(raw.templateVariables))) {
+    throw new Error('"templateVariables" must be an object');
+  }
+
+  return {
+    projectName: raw.projectName,
+    template: raw.template ?? raw.uiType,
+    libraries,
+    packageName: raw.packageName,
+    minSdk: raw.minSdk !== undefined ? String(raw.minSdk) : undefined,
+    targetSdk: raw.targetSdk !== undefined ? String(raw.targetSdk) : undefined,
+    git: raw.git,
+    modular: raw.modular,
+    conventionPlugins: raw.conventionPlugins,
+    sdkPath: raw.sdkPath,
+    templateVariables: raw.templateVariables
+      ? Object.fromEntries(Object.entries(raw.templateVariables).map(([key, value]) => [key, String(value)]))
+      : undefined
+  };
+}
+
+interface ProjectContext {
+    projectPath: string;
+    moduleName: string;
+    packageName: string;
+}
+
+async function resolveProjectContext(moduleInput?: string): Promise<ProjectContext> {
     const projectPath = process.cwd();
     const packageJsonPath = path.join(projectPath, 'package.json');
     
@@ -116,11 +416,16 @@ async function handleInstall(pkgName: string | undefined) {
         process.exit(1);
     }
 
-    const packageJson = await fs.readJSON(packageJsonPath);
-    const projectName = packageJson.name;
-    
-    // Determine module name (check if 'library' or 'app' dir exists)
-    const moduleName = fs.existsSync(path.join(projectPath, 'library')) ? 'library' : 'app';
+    // Use the requested module, otherwise check if 'library' or 'app' dir exists
+    let moduleName = fs.existsSync(path.join(projectPath, 'library')) ? 'library' : 'app';
+    if (moduleInput) {
+        try {
+            moduleName = parseModulePath(moduleInput).dir;
+        } catch (e: any) {
+            logger.error(e.message);
+            process.exit(1);
+        }
+    }
     
     // Resolve package name from build.gradle.kts
     const buildFile = path.join(projectPath, moduleName, 'build.gradle.kts');
@@ -135,7 +440,22 @@ async function handleInstall(pkgName: string | undefined) {
         logger.error('Could not determine project package name from build.gradle.kts.');
         process.exit(1);
     }
-    const packageName = namespaceMatch[1];
+
+    return { projectPath, moduleName, packageName: namespaceMatch[1] };
+}
+
+interface InstallOptions {
+    offline?: boolean;
+    dryRun?: boolean;
+    module?: string;
+    registry?: string;
+    trust?: boolean;
+    // Expected checksum of the named remote recipe
+    sha256?: string;
+}
+
+async function handleInstall(pkgName: string | undefined, options: InstallOptions = {}) {
+    const { projectPath, moduleName, packageName } = await resolveProjectContext(options.module);
 
     // Resolve versions for addons
     const artifacts = {
@@ -146,18 +466,26 @@ async function handleInstall(pkgName: string | undefined) {
         'HILT_VERSION': { group: 'com.google.dagger', name: 'hilt-android' },
         'ROOM_VERSION': { group: 'androidx.room', name: 'room-runtime' },
         'DATASTORE_VERSION': { group: 'androidx.datastore', name: 'datastore-preferences' },
+        'GLANCE_VERSION': { group: 'androidx.glance', name: 'glance-appwidget' },
+        'SERIALIZATION_VERSION': { group: 'org.jetbrains.kotlinx', name: 'kotlinx-serialization-json' },
     };
-    const resolvedMaven = await VersionResolver.resolveAll(artifacts);
-    const remoteDefaults = await VersionResolver.getRemoteDefaults();
-    
-    const versions: Record<string, string> = {};
-    for (const key of Object.keys(artifacts)) {
-        versions[key] = resolvedMaven[key] || remoteDefaults[key] || (CONSTANTS.DEFAULTS as any)[key];
+    // KSP has to match the Kotlin version the project is on, not the latest one
+    const tomlPath = path.join(projectPath, 'gradle', 'libs.versions.toml');
+    const kotlinVersion = fs.existsSync(tomlPath) ? VersionCatalog.parse(await fs.readFile(tomlPath, 'utf-8')).getVersion('kotlin') : undefined;
+    const versions = await VersionResolver.resolveVersions(artifacts, { offline: options.offline, kotlinVersion });
+
+    if (options.sha256 && (!pkgName || !/^[0-9a-f]{64}$/i.test(options.sha256))) {
+        logger.error('--sha256 needs an addon name and a 64-character hex checksum.');
+        process.exit(1);
     }
-    const kotlinVersion = versions['KOTLIN_VERSION'];
-    versions['KSP_VERSION'] = await VersionResolver.getLatestKspVersion(kotlinVersion) || `${kotlinVersion}-1.0.29`;
 
-    const addonManager = new AddonManager(projectPath, moduleName, packageName, versions);
+    const addonManager = new AddonManager(projectPath, moduleName, packageName, versions, {
+        dryRun: options.dryRun,
+        offline: options.offline,
+        registryUrl: options.registry,
+        trust: options.trust,
+        checksums: options.sha256 ? { [pkgName!]: options.sha256 } : undefined
+    });
 
     if (!pkgName) {
         // Interactive selection if no package name provided
@@ -172,11 +500,367 @@ async function handleInstall(pkgName: string | undefined) {
                 { title: 'Ktor', value: 'ktor' },
                 { title: 'Serialization', value: 'serialization' },
                 { title: 'Room', value: 'room' },
-                { title: 'DataStore', value: 'datastore' }
+                { title: 'DataStore', value: 'datastore' },
+                { title: 'Glance Widget', value: 'glance' }
             ]
         });
-        if (response.pkg) await addonManager.install(response.pkg);
-    } else {
+        pkgName = response.pkg;
+        if (!pkgName) return;
+    }
+
+    try {
         await addonManager.install(pkgName);
+    } catch (e: any) {
+        logger.error(e.message);
+        if (e instanceof AddonInstallError && e.rolledBack) logger.info('All changes have been rolled back.');
+        process.exit(1);
+    }
+
+    if (options.dryRun) {
+        printChanges(projectPath, addonManager.getChanges());
+        return;
+    }
+
+    // SDK packages the addon (or an addon it pulled in) asks for, such as the NDK
+    const manifestPath = path.join(projectPath, ADDON_MANIFEST_NAME);
+    const manifest = parseAddonManifest(fs.existsSync(manifestPath) ? await fs.readFile(manifestPath, 'utf-8') : null);
+    const sdkPackages = [...new Set(Object.values(manifest.addons).flatMap(addon => addon.sdkPackages ?? []))];
+    if (sdkPackages.length > 0) {
+        const sdk = await resolveSdkRoot(projectPath);
+        const installed = await listInstalledPackages(sdk.path);
+        const missing = sdkPackages.filter(name => !installed.has(name));
+        if (missing.length > 0) {
+            try {
+                await installSdk({ sdkPath: sdk.path, offline: options.offline, packages: missing, javaHome: (await findJdk())?.home });
+            } catch (e: any) {
+                logger.warn(`Install ${missing.join(', ')} later with: npx create-droid sdk install`);
+            }
+        }
+    }
+}
+
+function printChanges(projectPath: string, changes: FileChange[]) {
+    if (changes.length === 0) {
+        logger.info('Dry run: no files would change.');
+        return;
+    }
+
+    logger.step(`Dry run: ${changes.length} file(s) would change`);
+    for (const change of changes) {
+        const relativePath = path.relative(projectPath, change.path);
+        console.log();
+        console.log(colorizeDiff(createUnifiedDiff(relativePath, change.original, change.content)));
+    }
+
+    const created = changes.filter(change => change.original === null);
+    if (created.length > 0) {
+        console.log();
+        logger.info('Files to be created:');
+        for (const change of created) {
+            console.log(`  ${kleur.green('+')} ${path.relative(projectPath, change.path)}`);
+        }
+    }
+}
+
+async function handleRemove(addonName: string | undefined, options: { force?: boolean; module?: string } = {}) {
+    if (!addonName) {
+        logger.error('Usage: create-droid remove <addon> [--force] [--module <path>]');
+        process.exit(1);
+    }
+
+    // Revert in the module the addon was installed into, unless told otherwise
+    let moduleInput = options.module;
+    const manifestPath = path.join(process.cwd(), ADDON_MANIFEST_NAME);
+    if (!moduleInput && fs.existsSync(manifestPath)) {
+        const addons = Object.values(parseAddonManifest(await fs.readFile(manifestPath, 'utf-8')).addons);
+        const modules = addons.filter(addon => addon.name === addonName).map(addon => addon.module);
+        if (modules.length > 1) {
+            logger.error(`${addonName} is installed in ${modules.join(', ')}; pick one with --module.`);
+            process.exit(1);
+        }
+        moduleInput = modules[0];
+    }
+
+    const { projectPath, moduleName, packageName } = await resolveProjectContext(moduleInput);
+
+    // Removal never needs fresh versions; reuse the ones the project was generated with
+    const lockPath = path.join(projectPath, LOCKFILE_NAME);
+    const versions = fs.existsSync(lockPath) ? (await readLockfile(lockPath)).versions : {};
+
+    const addonManager = new AddonManager(projectPath, moduleName, packageName, versions);
+    try {
+        await addonManager.remove(addonName, options);
+        logger.success(`Removed ${addonName}.`);
+    } catch (e: any) {
+        logger.error(e.message);
+        process.exit(1);
+    }
+}
+
+async function handleModule(action: string | undefined, moduleInput: string | undefined, options: { type?: string; consumers?: string[] } = {}) {
+    if (action !== 'add' || !moduleInput) {
+        logger.error('Usage: create-droid module add <path> --type library|feature|compose-library [--consumer :app]');
+        process.exit(1);
+    }
+
+    const { projectPath, moduleName, packageName } = await resolveProjectContext();
+
+    let type = options.type;
+    if (!type) {
+        const response = await prompts({
+            type: 'select',
+            name: 'type',
+            message: 'Module type:',
+            choices: [
+                { title: 'Library', value: 'library', description: 'Android library without UI' },
+                { title: 'Feature', value: 'feature', description: 'Compose screen for a single feature' },
+                { title: 'Compose Library', value: 'compose-library', description: 'Reusable Compose components' }
+            ]
+        });
+        type = response.type;
+        if (!type) return;
+    }
+    if (!(type in MODULE_TEMPLATES)) {
+        logger.error(`Unknown module type "${type}". Available: ${Object.keys(MODULE_TEMPLATES).join(', ')}`);
+        process.exit(1);
+    }
+
+    // Wire into the app by default when there is one
+    const consumers = options.consumers
+        ?? (fs.existsSync(path.join(projectPath, 'app', 'build.gradle.kts')) ? [':app'] : []);
+
+    try {
+        const module = await createModule({
+            projectPath,
+            module: moduleInput,
+            type: type as ModuleType,
+            basePackage: packageName,
+            projectName: path.basename(projectPath),
+            patches: await readSdkLevels(projectPath, [moduleName]),
+            consumers
+        });
+        logger.success(`Created ${module.gradlePath} (${module.packageName}) in ${module.dir}/`);
+        if (consumers.length > 0) {
+            logger.info(`Added implementation(project("${module.gradlePath}")) to ${consumers.join(', ')}`);
+        }
+        logger.info(`Modules: ${(await listModules(projectPath)).join(', ')}`);
+    } catch (e: any) {
+        logger.error(e.message);
+        process.exit(1);
+    }
+}
+
+async function handleDoctor(options: { json?: boolean } = {}) {
+    // Works anywhere; project checks only run inside a Gradle project
+    const cwd = process.cwd();
+    const projectPath = ['settings.gradle.kts', 'settings.gradle'].some(f => fs.existsSync(path.join(cwd, f))) ? cwd : null;
+    const report = await runDoctor(projectPath);
+
+    if (options.json) {
+        console.log(JSON.stringify(report, null, 2));
+    } else {
+        const icons: Record<DoctorCheck['status'], string> = { ok: kleur.green('✔'), warn: kleur.yellow('⚠'), fail: kleur.red('✖') };
+        logger.step(projectPath ? `Checking ${projectPath}` : 'Checking the environment (run inside a project for project checks)');
+        for (const check of report.checks) {
+            console.log(`  ${icons[check.status]} ${check.message}`);
+            if (check.fix && check.status !== 'ok') console.log(kleur.dim(`      fix: ${check.fix}`));
+        }
+    }
+
+    const failed = report.checks.filter(check => check.status === 'fail').length;
+    if (failed > 0) {
+        if (!options.json) logger.error(`${failed} check(s) failed.`);
+        process.exit(1);
+    }
+}
+
+async function handleSdk(action: string | undefined, packages: string[], options: { sdkPath?: string; offline?: boolean } = {}) {
+    if (!['install', 'list', 'uninstall'].includes(action ?? '') || (action === 'uninstall' && packages.length === 0)) {
+        logger.error('Usage: create-droid sdk list | install [package...] | uninstall <package...> [--sdk-path <dir>]');
+        process.exit(1);
+    }
+    const invalid = packages.filter(name => !SDK_PACKAGE_PATTERN.test(name));
+    if (invalid.length > 0) {
+        logger.error(`Not an sdkmanager package path: ${invalid.join(', ')} (e.g. "platforms;android-35")`);
+        process.exit(1);
+    }
+
+    // Inside a project, the SDK and the packages come from local.properties and its compileSdk
+    const cwd = process.cwd();
+    const projectPath = ['settings.gradle.kts', 'settings.gradle'].some(f => fs.existsSync(path.join(cwd, f))) ? cwd : null;
+    const sdkPath = options.sdkPath ? path.resolve(cwd, options.sdkPath) : (await resolveSdkRoot(projectPath)).path;
+
+    try {
+        if (action === 'list') {
+            const installed = await listInstalledPackages(sdkPath);
+            const width = Math.max(0, ...[...installed.keys()].map(name => name.length)) + 2;
+            logger.step(`Installed in ${sdkPath} (${installed.size})`);
+            for (const pkg of [...installed.values()].sort((a, b) => a.path.localeCompare(b.path))) {
+                console.log(`    ${pkg.path.padEnd(width)}${kleur.dim(pkg.version)}`);
+            }
+            if (projectPath) {
+                logger.step('Needed by this project');
+                for (const name of await readProjectSdkPackages(projectPath)) {
+                    console.log(`  ${installed.has(name) ? kleur.green('✔') : kleur.red('✖')} ${name}`);
+                }
+            }
+            return;
+        }
+
+        if (action === 'install') {
+            if (packages.length === 0 && !projectPath) {
+                logger.error('Name the packages to install, or run inside a project to install what its compileSdk needs.');
+                process.exit(1);
+            }
+            await installSdk({
+                sdkPath,
+                offline: options.offline,
+                packages: packages.length > 0 ? packages : await readProjectSdkPackages(projectPath!),
+                javaHome: (await findJdk())?.home
+            });
+            return;
+        }
+
+        const installed = await listInstalledPackages(sdkPath);
+        const missing = packages.filter(name => !installed.has(name));
+        if (missing.length > 0) logger.warn(`Not installed: ${missing.join(', ')}`);
+        const present = packages.filter(name => installed.has(name));
+        if (present.length === 0) return;
+        await runSdkManager(sdkPath, ['--uninstall', ...present], (await findJdk())?.home);
+        logger.success(`Uninstalled ${present.join(', ')}.`);
+    } catch (e: any) {
+        logger.error(e.message);
+        process.exit(1);
+    }
+}
+
+async function handleGradle(action: string | undefined, version: string | undefined, options: { offline?: boolean } = {}) {
+    if (action !== 'set-version' || !version) {
+        logger.error('Usage: create-droid gradle set-version <version|latest> [--offline]');
+        process.exit(1);
+    }
+    const projectPath = process.cwd();
+    if (!fs.existsSync(getWrapperPropertiesPath(projectPath))) {
+        logger.error('No gradle/wrapper/gradle-wrapper.properties found. Run this from the project root.');
+        process.exit(1);
+    }
+
+    try {
+        if (version === 'latest') {
+            if (options.offline) throw new Error('"latest" needs to look up the newest Gradle release and cannot run with --offline.');
+            const latest = await VersionResolver.getLatestGradleVersion();
+            if (!latest) throw new Error('Could not determine the latest Gradle release.');
+            version = latest;
+        }
+        if (!/^\d+\.\d+(\.\d+)?(-[\w.-]+)?$/.test(version)) throw new Error(`"${version}" is not a Gradle version`);
+
+        const current = parseWrapperVersion(await fs.readFile(getWrapperPropertiesPath(projectPath), 'utf-8'));
+        await setGradleVersion(projectPath, version, { offline: options.offline });
+        logger.success(`Gradle wrapper ${current && current !== version ? `${current} → ${version}` : `set to ${version}`}.`);
+    } catch (e: any) {
+        logger.error(e.message);
+        process.exit(1);
+    }
+}
+
+async function handleUpgrade(options: { all?: boolean; only?: string[]; dryRun?: boolean; offline?: boolean } = {}) {
+    if (options.offline) {
+        logger.error('upgrade looks up the newest versions online and cannot run with --offline.');
+        process.exit(1);
+    }
+    const { projectPath } = await resolveProjectContext();
+
+    logger.info('Checking Google Maven and Maven Central for newer versions...');
+    let upgrades: CatalogUpgrade[];
+    try {
+        upgrades = await findUpgrades(projectPath);
+    } catch (e: any) {
+        logger.error(e.message);
+        process.exit(1);
+    }
+    if (upgrades.length === 0) {
+        logger.success('Everything in libs.versions.toml is up to date.');
+        return;
+    }
+
+    printUpgrades(upgrades);
+    const available = upgrades.filter(u => !u.heldBack);
+
+    let selected: CatalogUpgrade[];
+    if (options.only) {
+        const unknown = options.only.filter(key => !available.some(u => u.key === key));
+        if (unknown.length > 0) {
+            logger.error(`No upgrade available for ${unknown.join(', ')}. Choose from: ${available.map(u => u.key).join(', ')}`);
+            process.exit(1);
+        }
+        selected = available.filter(u => options.only!.includes(u.key));
+    } else if (options.all) {
+        selected = available;
+    } else if (!process.stdin.isTTY) {
+        logger.info('Run with --all or --only <key,...> to apply upgrades.');
+        return;
+    } else {
+        const response = await prompts({
+            type: 'multiselect',
+            name: 'keys',
+            message: 'Select upgrades to apply:',
+            choices: available.map(u => ({ title: `${u.key} ${u.current} → ${u.latest}`, value: u.key, selected: true })),
+            hint: '- Space to select. Return to submit'
+        });
+        selected = available.filter(u => (response.keys ?? []).includes(u.key));
+    }
+    if (selected.length === 0) return;
+
+    let changes: FileChange[];
+    try {
+        changes = await applyUpgrades(projectPath, selected, { dryRun: options.dryRun, offline: options.offline });
+    } catch (e: any) {
+        logger.error(e.message);
+        logger.info('Nothing was changed.');
+        process.exit(1);
+    }
+    if (options.dryRun) {
+        printChanges(projectPath, changes);
+        return;
+    }
+    const count = selected.reduce((total, u) => total + 1 + u.coupled.length, 0);
+    logger.success(`Upgraded ${count} version(s). Sync the project in Android Studio or run ./gradlew build.`);
+}
+
+function printUpgrades(upgrades: CatalogUpgrade[]) {
+    const width = Math.max(...upgrades.map(u => u.key.length)) + 2;
+    const currentWidth = Math.max(...upgrades.map(u => u.current.length));
+
+    logger.step(`Upgrades available (${upgrades.length})`);
+    for (const upgrade of upgrades) {
+        const change = `${upgrade.key.padEnd(width)}${upgrade.current.padEnd(currentWidth)} → ${upgrade.latest}`;
+        const coupled = upgrade.coupled.map(c => `${c.key} ${c.latest}`).join(', ');
+        if (upgrade.heldBack) {
+            console.log(`  ${kleur.yellow('!')} ${change}${kleur.yellow(`  held back: ${upgrade.heldBack}`)}`);
+        } else {
+            console.log(`  ${kleur.green('↑')} ${change}${coupled ? kleur.dim(`  (with ${coupled})`) : ''}`);
+        }
+    }
+}
+
+async function handleList(options: { registry?: string; module?: string; offline?: boolean } = {}) {
+    const { projectPath, moduleName, packageName } = await resolveProjectContext(options.module);
+    const addonManager = new AddonManager(projectPath, moduleName, packageName, {}, { registryUrl: options.registry, offline: options.offline });
+    const listings = await addonManager.listAddons();
+
+    const width = Math.max(...listings.map(l => l.name.length)) + 2;
+    const installed = listings.filter(l => l.installed);
+    const available = listings.filter(l => !l.installed);
+
+    logger.step(`Installed in ${moduleName} (${installed.length})`);
+    for (const addon of installed) {
+        const pinned = Object.entries(addon.pinned).map(([key, version]) => `${key} = ${version}`).join(', ');
+        console.log(`  ${kleur.green('✔')} ${addon.name.padEnd(width)}${addon.description}${pinned ? kleur.dim(`  [${pinned}]`) : ''}`);
+    }
+
+    logger.step(`Available (${available.length})`);
+    for (const addon of available) {
+        const source = addon.source === 'builtin' ? '' : kleur.dim(`  (${addon.source})`);
+        console.log(`    ${addon.name.padEnd(width)}${addon.description}${source}`);
     }
 }
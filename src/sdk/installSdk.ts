@@ -1,20 +1,47 @@
 import path from 'path';
-import os from 'os';
 import fs from 'fs-extra';
 import { CONSTANTS } from '../utils/constants.js';
 import { logger } from '../utils/logger.js';
+import { getDataDir, getCachedArtifactPath } from '../utils/cache.js';
 import { execa } from 'execa';
-import { pipeline } from 'stream/promises';
-import { createWriteStream } from 'fs';
 import AdmZip from 'adm-zip';
+import { download, sha256File } from '../utils/download.js';
+import { sdkPackagesFor, listInstalledPackages } from './sdkPackages.js';
 
-export async function installSdk(): Promise<string> {
+// Hashes of the license texts `sdkmanager --licenses` records as accepted
+export const SDK_LICENSES: Record<string, string[]> = {
+  'android-sdk-license': [
+    '8933bad161af4178b1185d1a37fbf41ea5269c55',
+    'd56f5187479451eabf01fb78af6dfcb131a6481e',
+    '24333f8a63b6825ea9c5514f83c2829b004d1fee',
+    '45f7d2194635848e3d6409be4d33ca24d6232258',
+  ],
+  'android-sdk-preview-license': ['84831b9409646a918e30573bab4c9c91346d8abd'],
+};
+
+interface SdkOptions {
+  sdkPath?: string;
+  offline?: boolean;
+  // sdkmanager packages to install; defaults to the ones the default compileSdk needs
+  packages?: string[];
+  // JDK sdkmanager runs on, for one that is not on PATH
+  javaHome?: string | null;
+}
+
+/** Where installSdk puts the SDK: `--sdk-path`, then ANDROID_HOME, then the data directory. */
+export function getSdkPath(sdkPath?: string): string {
+  return sdkPath || process.env.ANDROID_HOME || path.join(getDataDir(), 'sdk');
+}
+
+export async function installSdk(options: SdkOptions = {}): Promise<string> {
   const isMac = process.platform === 'darwin';
   
   // 1. Determine SDK Path
-  const sdkPath = process.env.ANDROID_HOME || path.join(os.homedir(), '.local', 'share', 'create-android-app', 'sdk');
+  const sdkPath = getSdkPath(options.sdkPath);
   
-  if (process.env.ANDROID_HOME) {
+  if (options.sdkPath) {
+    logger.info(`Using SDK path: ${sdkPath}`);
+  } else if (process.env.ANDROID_HOME) {
     logger.info(`Using ANDROID_HOME: ${sdkPath}`);
   } else {
     logger.info(`Using local SDK path: ${sdkPath}`);
@@ -29,7 +56,9 @@ export async function installSdk(): Promise<string> {
 
   if (!fs.existsSync(sdkManagerPath)) {
     logger.step('Android Command Line Tools not found. Downloading...');
-    await downloadCmdlineTools(sdkPath, cmdlineToolsLatest, isMac);
+    if (!await downloadCmdlineTools(sdkPath, cmdlineToolsLatest, isMac, options.offline)) {
+      logger.warn('Run `npx create-droid sdk install` inside the project once online to finish the SDK setup.');
+    }
   } else {
     logger.success('Command Line Tools found.');
   }
@@ -38,40 +67,27 @@ export async function installSdk(): Promise<string> {
   const licensesDir = path.join(sdkPath, 'licenses');
   await fs.ensureDir(licensesDir);
 
-  const androidSdkLicense = [
-    '8933bad161af4178b1185d1a37fbf41ea5269c55',
-    'd56f5187479451eabf01fb78af6dfcb131a6481e',
-    '24333f8a63b6825ea9c5514f83c2829b004d1fee',
-    '45f7d2194635848e3d6409be4d33ca24d6232258',
-  ].join('\n');
-
-  const androidSdkPreviewLicense = '84831b9409646a918e30573bab4c9c91346d8abd';
-
   logger.step('Writing license files...');
-  await fs.writeFile(path.join(licensesDir, 'android-sdk-license'), androidSdkLicense);
-  await fs.writeFile(path.join(licensesDir, 'android-sdk-preview-license'), androidSdkPreviewLicense);
+  for (const [name, hashes] of Object.entries(SDK_LICENSES)) {
+    await fs.writeFile(path.join(licensesDir, name), hashes.join('\n'));
+  }
 
   // 4. Install Packages
   logger.step('Installing SDK packages (this may take a while)...');
-  const packages = CONSTANTS.SDK_PACKAGES;
-  
-  try {
-    // Determine platform and build-tools version from CONSTANTS
-    const platformMatch = CONSTANTS.SDK_PACKAGES.find(p => p.startsWith('platforms;android-'))?.split('-')[1];
-    const buildToolsMatch = CONSTANTS.SDK_PACKAGES.find(p => p.startsWith('build-tools;'))?.split(';')[1];
+  const packages = options.packages ?? sdkPackagesFor([]);
 
-    const platformCheck = platformMatch ? path.join(sdkPath, 'platforms', `android-${platformMatch}`) : null;
-    const buildToolsCheck = buildToolsMatch ? path.join(sdkPath, 'build-tools', buildToolsMatch) : null;
+  try {
+    const installed = await listInstalledPackages(sdkPath);
+    const missing = packages.filter(p => !installed.has(p));
 
-    if (platformCheck && buildToolsCheck && fs.existsSync(platformCheck) && fs.existsSync(buildToolsCheck)) {
+    if (missing.length === 0) {
         logger.success('SDK packages appear to be installed. Skipping redundant install.');
+    } else if (options.offline) {
+        logger.warn(`Offline: SDK packages are missing and cannot be installed (${missing.join(', ')}).`);
+        logger.warn('Re-run online, or point --sdk-path/ANDROID_HOME at an existing SDK, before building.');
     } else {
-        await execa(sdkManagerPath, [`--sdk_root=${sdkPath}`, ...packages], {
-            stdio: 'inherit',
-            env: {
-                ANDROID_HOME: sdkPath,
-            }
-        });
+        logger.info(`Installing ${missing.join(', ')}`);
+        await runSdkManager(sdkPath, missing, options.javaHome);
         logger.success('SDK packages installed.');
     }
   } catch (e: any) {
@@ -83,42 +99,76 @@ export async function installSdk(): Promise<string> {
   return sdkPath;
 }
 
-async function downloadCmdlineTools(sdkPath: string, targetDir: string, isMac: boolean) {
+/**
+ * Runs the SDK's own sdkmanager with `args` (package paths, `--uninstall`, ...). It is a Java
+ * program itself, so `javaHome` is handed over as JAVA_HOME when the JDK is not the one on PATH.
+ */
+export async function runSdkManager(sdkPath: string, args: string[], javaHome?: string | null) {
+  const sdkManagerPath = path.join(sdkPath, 'cmdline-tools', 'latest', 'bin', process.platform === 'win32' ? 'sdkmanager.bat' : 'sdkmanager');
+  if (!fs.existsSync(sdkManagerPath)) {
+    throw new Error(`sdkmanager not found in ${sdkPath}. Run create-droid once to install the command-line tools.`);
+  }
+  await execa(sdkManagerPath, [`--sdk_root=${sdkPath}`, ...args], {
+    stdio: 'inherit',
+    env: {
+      ANDROID_HOME: sdkPath,
+      ...(javaHome ? { JAVA_HOME: javaHome } : {}),
+    }
+  });
+}
+
+// False when offline and the zip isn't cached, so the SDK is left without command-line tools
+async function downloadCmdlineTools(sdkPath: string, targetDir: string, isMac: boolean, offline = false): Promise<boolean> {
   const url = isMac ? CONSTANTS.CMDLINE_TOOLS_URL_MAC 
             : CONSTANTS.CMDLINE_TOOLS_URL_LINUX;
+  const sha256 = isMac ? CONSTANTS.CMDLINE_TOOLS_SHA256_MAC : CONSTANTS.CMDLINE_TOOLS_SHA256_LINUX;
             
-  const zipPath = path.join(sdkPath, 'cmdline-tools.zip');
-  
-  logger.info(`Downloading ${url}...`);
-  const response = await fetch(url);
-  if (!response.ok) throw new Error(`Failed to download SDK: ${response.statusText}`);
-  if (!response.body) throw new Error('No body in response');
-  
-  await pipeline(response.body as any, createWriteStream(zipPath));
+  // The zip is kept in the shared cache so offline runs can reuse it
+  const zipPath = getCachedArtifactPath(path.basename(url));
+
+  // A cached zip that no longer matches (truncated, tampered with) is dropped and fetched again
+  if (fs.existsSync(zipPath) && await sha256File(zipPath) !== sha256) {
+    logger.warn(`Cached ${path.basename(url)} is corrupt; discarding it.`);
+    await fs.remove(zipPath);
+  }
+
+  if (offline || fs.existsSync(zipPath)) {
+    if (!fs.existsSync(zipPath)) {
+      logger.warn(`Offline: ${path.basename(url)} is not cached in ${path.dirname(zipPath)}; skipping the command-line tools.`);
+      return false;
+    }
+    logger.info(`Using cached ${path.basename(url)}`);
+  } else {
+    logger.info(`Downloading ${url}...`);
+    await download(url, zipPath, { sha256 });
+  }
   
   logger.info('Extracting (using adm-zip)...');
   
   const tempDir = path.join(sdkPath, 'temp_extract');
+  await fs.remove(tempDir);
   await fs.ensureDir(tempDir);
-  
-  const zip = new AdmZip(zipPath);
-  zip.extractAllTo(tempDir, true);
 
-  const extractedContents = await fs.readdir(tempDir);
-  const rootFolder = extractedContents.find(f => fs.statSync(path.join(tempDir, f)).isDirectory());
-  
-  if (!rootFolder) throw new Error('Unknown zip structure');
-  
-  const source = path.join(tempDir, rootFolder);
-  
-  await fs.ensureDir(path.dirname(targetDir));
-  
-  if (fs.existsSync(targetDir)) {
-      await fs.remove(targetDir);
+  try {
+    const zip = new AdmZip(zipPath);
+    zip.extractAllTo(tempDir, true);
+
+    const extractedContents = await fs.readdir(tempDir);
+    const rootFolder = extractedContents.find(f => fs.statSync(path.join(tempDir, f)).isDirectory());
+    
+    if (!rootFolder) throw new Error('Unknown zip structure');
+    
+    const source = path.join(tempDir, rootFolder);
+    
+    await fs.ensureDir(path.dirname(targetDir));
+    
+    if (fs.existsSync(targetDir)) {
+        await fs.remove(targetDir);
+    }
+    
+    await fs.move(source, targetDir);
+  } finally {
+    await fs.remove(tempDir);
   }
-  
-  await fs.move(source, targetDir);
-  
-  await fs.remove(tempDir);
-  await fs.remove(zipPath);
+  return true;
 }
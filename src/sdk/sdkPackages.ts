@@ -0,0 +1,127 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { CONSTANTS } from '../utils/constants.js';
+import { getDataDir } from '../utils/cache.js';
+import { listModules, parseModulePath } from '../template/modules.js';
+import { BUILD_LOGIC_DIR } from '../template/conventionPlugins.js';
+import { ADDON_MANIFEST_NAME, parseAddonManifest } from '../template/addonManifest.js';
+
+export interface SdkRoot {
+    path: string;
+    // local.properties, ANDROID_HOME, ANDROID_SDK_ROOT or create-droid default
+    source: string;
+    exists: boolean;
+}
+
+export interface InstalledPackage {
+    // sdkmanager path such as `platforms;android-35`
+    path: string;
+    version: string;
+    dir: string;
+}
+
+// sdkmanager package paths: `platform-tools`, `build-tools;35.0.0`, `system-images;android-35;google_apis;x86_64`
+export const SDK_PACKAGE_PATTERN = /^[a-z][\w.-]*(;[\w.-]+)*$/;
+
+// SDK directories that never hold packages
+const IGNORED_DIRS = new Set(['licenses', 'temp', '.temp', 'temp_extract', '.downloadIntermediates']);
+
+/**
+ * Packages a project needs: platform-tools and the command-line tools, the platform and
+ * build-tools for every `compileSdk`, and whatever templates or addons ask for on top.
+ */
+export function sdkPackagesFor(compileSdks: (number | string)[], extra: string[] = []): string[] {
+    const levels = compileSdks.length > 0 ? compileSdks.map(Number) : [Number(CONSTANTS.DEFAULTS.COMPILE_SDK)];
+    const packages = [
+        ...CONSTANTS.SDK_BASE_PACKAGES,
+        ...levels.map(level => `platforms;android-${level}`),
+        // Build tools are released alongside each platform as `<level>.0.0`
+        ...levels.map(level => `build-tools;${level}.0.0`),
+        ...extra
+    ];
+    return [...new Set(packages)];
+}
+
+/** The packages `projectPath` needs, from its modules' `compileSdk` and its installed addons. */
+export async function readProjectSdkPackages(projectPath: string, extra: string[] = []): Promise<string[]> {
+    const manifestPath = path.join(projectPath, ADDON_MANIFEST_NAME);
+    const manifest = parseAddonManifest(fs.existsSync(manifestPath) ? await fs.readFile(manifestPath, 'utf-8') : null);
+    const addonPackages = Object.values(manifest.addons).flatMap(addon => addon.sdkPackages ?? []);
+    return sdkPackagesFor(await readCompileSdks(projectPath), [...addonPackages, ...extra]);
+}
+
+/**
+ * Every package installed in `sdkPath`, keyed by its sdkmanager path. Read from the
+ * `package.xml` sdkmanager writes into each package, falling back to `source.properties`
+ * (the command-line tools bootstrapped from the zip only have that one).
+ */
+export async function listInstalledPackages(sdkPath: string): Promise<Map<string, InstalledPackage>> {
+    const installed = new Map<string, InstalledPackage>();
+
+    const visit = async (dir: string, depth: number) => {
+        const packageXml = path.join(dir, 'package.xml');
+        const sourceProperties = path.join(dir, 'source.properties');
+        if (fs.existsSync(packageXml)) {
+            const xml = await fs.readFile(packageXml, 'utf-8');
+            const packagePath = xml.match(/<localPackage[^>]*\bpath="([^"]+)"/)?.[1];
+            const revision = xml.match(/<localPackage[\s\S]*?<revision>([\s\S]*?)<\/revision>/)?.[1] ?? '';
+            const version = ['major', 'minor', 'micro'].map(part => revision.match(new RegExp(`<${part}>(\\d+)</${part}>`))?.[1])
+                .filter((part): part is string => part !== undefined).join('.');
+            if (packagePath) installed.set(packagePath, { path: packagePath, version, dir });
+            return;
+        }
+        if (fs.existsSync(sourceProperties) && depth > 0) {
+            const packagePath = path.relative(sdkPath, dir).split(path.sep).join(';');
+            const version = (await fs.readFile(sourceProperties, 'utf-8')).match(/^Pkg\.Revision=(.*)$/m)?.[1].trim() ?? '';
+            installed.set(packagePath, { path: packagePath, version, dir });
+            return;
+        }
+        // system-images;android-35;google_apis;x86_64 is the deepest package layout
+        if (depth >= 4) return;
+        for (const entry of await fs.readdir(dir, { withFileTypes: true })) {
+            if (entry.isDirectory() && !IGNORED_DIRS.has(entry.name)) await visit(path.join(dir, entry.name), depth + 1);
+        }
+    };
+
+    if (fs.existsSync(sdkPath)) await visit(sdkPath, 0);
+    return installed;
+}
+
+// The SDK Gradle builds with: local.properties first, then the environment, then create-droid's own
+export async function resolveSdkRoot(projectPath: string | null): Promise<SdkRoot> {
+    const candidates: [string | undefined, string][] = [
+        [projectPath ? await readSdkDir(projectPath) : undefined, 'local.properties'],
+        [process.env.ANDROID_HOME, 'ANDROID_HOME'],
+        [process.env.ANDROID_SDK_ROOT, 'ANDROID_SDK_ROOT'],
+        [path.join(getDataDir(), 'sdk'), 'create-droid default']
+    ];
+    for (const [sdkPath, source] of candidates) {
+        if (sdkPath && fs.existsSync(sdkPath)) return { path: sdkPath, source, exists: true };
+    }
+    const [sdkPath, source] = candidates.find(([p]) => p) as [string, string];
+    return { path: sdkPath, source, exists: false };
+}
+
+/** `sdk.dir` from local.properties, with the `\:` and `\\` escapes removed. */
+export async function readSdkDir(projectPath: string): Promise<string | undefined> {
+    const localProperties = path.join(projectPath, 'local.properties');
+    if (!fs.existsSync(localProperties)) return undefined;
+    const match = (await fs.readFile(localProperties, 'utf-8')).match(/^\s*sdk\.dir\s*[=:]\s*(.*)$/m);
+    return match ? match[1].trim().replace(/\\(.)/g, '$1') : undefined;
+}
+
+/** Every `compileSdk` the project's modules (or its build-logic ProjectConfig) ask for. */
+export async function readCompileSdks(projectPath: string): Promise<number[]> {
+    const files = [path.join(projectPath, BUILD_LOGIC_DIR, 'convention', 'src', 'main', 'kotlin', 'ProjectConfig.kt')];
+    for (const module of await listModules(projectPath)) {
+        files.push(path.join(projectPath, parseModulePath(module).dir, 'build.gradle.kts'));
+    }
+
+    const levels = new Set<number>();
+    for (const file of files.filter(f => fs.existsSync(f))) {
+        for (const match of (await fs.readFile(file, 'utf-8')).matchAll(/\b(?:compileSdk|COMPILE_SDK)\s*=\s*(\d+)/g)) {
+            levels.add(Number(match[1]));
+        }
+    }
+    return [...levels].sort((a, b) => a - b);
+}
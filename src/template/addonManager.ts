@@ -1,65 +1,369 @@
 import fs from 'fs-extra';
 import path from 'path';
+import prompts from 'prompts';
 import { logger } from '../utils/logger.js';
+import { VersionCatalog, CatalogSection, parseTomlValue } from './versionCatalog.js';
+import { GradleBuildFile } from './gradleBuildFile.js';
+import { ADDON_MANIFEST_NAME, parseAddonManifest, formatAddonManifest, addonKey, AddonManifest, InstalledAddon } from './addonManifest.js';
+import { validateRecipe } from './recipeSchema.js';
+import { sha256, getTrustedChecksum, trustRecipe, describeStep } from './recipeTrust.js';
+import { AndroidManifest, ResourceXml, PropertiesFile, appendRules, removeRules, EMPTY_MANIFEST, EMPTY_RESOURCES } from './androidFiles.js';
+import { ProjectVersions, selectRecipeVersions, describeFallbacks } from './compatibility.js';
+import { BUILD_LOGIC_DIR } from './conventionPlugins.js';
+
+// Project-level recipes, looked up by name before the built-ins and the registry
+export const PROJECT_RECIPES_DIR = 'recipes';
 
 export interface AddonStep {
-    type: 'toml_version' | 'toml_library' | 'toml_plugin' | 'gradle_plugin_root' | 'gradle_plugin_module' | 'gradle_implementation' | 'gradle_ksp' | 'patch_file' | 'create_file';
+    type: 'toml_version' | 'toml_library' | 'toml_plugin' | 'toml_bundle' | 'gradle_plugin_root' | 'gradle_plugin_module' | 'gradle_dependency' | 'gradle_implementation' | 'gradle_ksp' | 'gradle_android' | 'gradle_property'
+        | 'manifest_permission' | 'manifest_component' | 'xml_resource' | 'proguard_rule' | 'patch_file' | 'create_file';
     key?: string;
     value?: string;
+    // gradle_dependency: implementation, testImplementation, debugImplementation, ksp, ...
+    configuration?: string;
+    // KMP source set for dependency steps (defaults to commonMain)
+    sourceSet?: string;
+    // Only apply the step to Android or to Kotlin Multiplatform modules
+    target?: 'android' | 'multiplatform';
     file?: string;
     pattern?: string;
     replacement?: string;
     content?: string;
 }
 
+// What a recipe needs from the project; ranges look like ">=2.0.0" or ">=8.2 <9", a bare version must match exactly
+export interface VersionRequirement {
+    kotlin?: string;
+    agp?: string;
+    minSdk?: number;
+    // Other `[versions]` entries of libs.versions.toml, by key
+    versions?: Record<string, string>;
+}
+
+export interface RecipeVersion extends VersionRequirement {
+    // Versions of the library these requirements apply to
+    range: string;
+    // Newest version in `range`, installed when the resolved one does not fit the project
+    latest: string;
+}
+
 export interface AddonRecipe {
     name: string;
     description: string;
     dependencies?: string[];
+    // Whether the recipe can be installed into a Kotlin Multiplatform module
+    multiplatform?: boolean;
+    requires?: VersionRequirement;
+    // Compatibility of each `{{X_VERSION}}` placeholder, by placeholder name
+    versions?: Record<string, RecipeVersion[]>;
+    // sdkmanager packages installed along with the project's platform, e.g. `ndk;27.0.12077973`
+    sdkPackages?: string[];
     steps: AddonStep[];
 }
 
+export interface AddonListing {
+    name: string;
+    description: string;
+    source: 'builtin' | 'local' | 'remote';
+    installed: boolean;
+    installedAt?: string;
+    pinned: Record<string, string>;
+}
+
+export interface FileChange {
+    path: string;
+    original: string | null;
+    content: string | null;
+}
+
+export interface AddonManagerOptions {
+    // Compute every change in memory without touching the project
+    dryRun?: boolean;
+    // Registry serving `<name>.json` recipes and `index.json`; defaults to CREATE_DROID_REGISTRY or GitHub
+    registryUrl?: string;
+    // Install remote recipes without asking (CI)
+    trust?: boolean;
+    // Expected sha256 of remote recipes, by recipe name (`--sha256`)
+    checksums?: Record<string, string>;
+    // Never contact the registry; only project and built-in recipes are available
+    offline?: boolean;
+}
+
+/** A failed install; `rolledBack` tells whether files had been written and were restored. */
+export class AddonInstallError extends Error {
+    constructor(message: string, readonly rolledBack: boolean) {
+        super(message);
+    }
+}
+
 export class AddonManager {
+    private static REGISTRY_URL = 'https://raw.githubusercontent.com/YELrhilassi/create-android-app/main/addons';
+
+    private changes = new Map<string, FileChange>();
+    private recipes = new Map<string, AddonRecipe>();
+    // Where remote recipes were fetched from, recorded in the manifest
+    private origins = new Map<string, Pick<InstalledAddon, 'source' | 'sha256'>>();
+    // Versions each recipe installs, checked against the project before the first step
+    private recipeVersions = new Map<string, Record<string, string>>();
+
     constructor(
         private projectPath: string, 
         private moduleName: string, 
         private packageName: string,
-        private versions: Record<string, string> = {}
+        private versions: Record<string, string> = {},
+        private options: AddonManagerOptions = {}
     ) {}
 
+    /**
+     * Every file touched so far, with its content before the first change and after the last one.
+     */
+    getChanges(): FileChange[] {
+        return [...this.changes.values()].filter(change => change.original !== change.content);
+    }
+
+    /**
+     * Installs a recipe (and its dependencies) as a single transaction: the first
+     * failing step aborts the install and every touched file is restored.
+     */
     async install(recipeName: string) {
+        try {
+            // Load, validate and version-check the whole dependency tree before the first step runs
+            await this.resolveRecipeTree(recipeName, new Set());
+            await this.installRecipe(recipeName);
+        } catch (e: any) {
+            const rolledBack = await this.rollback();
+            throw new AddonInstallError(e.message, rolledBack);
+        }
+        // Committed: a later install on this manager must not roll these files back. A dry run
+        // keeps them, as they only exist in memory and getChanges() reports them all
+        if (!this.options.dryRun) this.changes.clear();
+    }
+
+    private async installRecipe(recipeName: string) {
         const recipe = await this.resolveRecipe(recipeName);
         if (!recipe) {
-            logger.error(`Recipe not found: ${recipeName}`);
+            throw new Error(`Recipe not found: ${recipeName}`);
+        }
+
+        const manifest = await this.readManifest();
+        if (manifest.addons[addonKey(this.moduleName, recipe.name)]) {
+            logger.info(`Addon already installed in ${this.moduleName}: ${recipe.name}`);
             return;
         }
 
+        const multiplatform = await this.isMultiplatformModule();
+        if (multiplatform && !recipe.multiplatform) {
+            throw new Error(`Addon "${recipe.name}" does not support Kotlin Multiplatform modules; install it into an Android module with --module.`);
+        }
+
         logger.info(`Installing addon: ${recipe.name}...`);
         
         if (recipe.dependencies) {
             for (const dep of recipe.dependencies) {
-                await this.install(dep);
+                await this.installRecipe(dep);
             }
         }
 
-        for (const step of recipe.steps) {
+        const steps = recipe.steps.filter(step => !step.target || step.target === (multiplatform ? 'multiplatform' : 'android'));
+        const appliedSteps: AddonStep[] = [];
+        for (const [index, step] of steps.entries()) {
+            const patchedStep = this.patchStep(step, this.recipeVersions.get(recipe.name));
             try {
-                // Apply version patches to step values
-                const patchedStep = { ...step };
-                if (patchedStep.value) patchedStep.value = this.applyPatches(patchedStep.value);
-                if (patchedStep.replacement) patchedStep.replacement = this.applyPatches(patchedStep.replacement);
-                if (patchedStep.content) patchedStep.content = this.applyPatches(patchedStep.content);
-
                 await this.executeStep(patchedStep);
             } catch (e: any) {
-                logger.warn(`Failed to execute step for ${recipe.name}: ${e.message}`);
+                const target = step.file ? this.resolvePath(step.file) : (step.key ?? step.value);
+                throw new Error(`Addon "${recipe.name}" failed at step ${index + 1}/${steps.length} (${step.type}${target ? ` ${target}` : ''}): ${e.message}`);
+            }
+            appliedSteps.push(patchedStep);
+        }
+
+        await this.recordInstall(recipe, appliedSteps);
+    }
+
+    private async resolveRecipeTree(name: string, seen: Set<string>) {
+        const recipe = await this.resolveRecipe(name);
+        if (!recipe) {
+            throw new Error(`Recipe not found: ${name} (looked in ${PROJECT_RECIPES_DIR}/, the built-in recipes and ${this.registryUrl})`);
+        }
+        if (seen.has(recipe.name)) return;
+        seen.add(recipe.name);
+        for (const dep of recipe.dependencies ?? []) {
+            await this.resolveRecipeTree(dep, seen);
+        }
+
+        if ((await this.readManifest()).addons[addonKey(this.moduleName, recipe.name)]) return;
+        const selected = selectRecipeVersions(recipe, await this.readProjectVersions(), this.versions);
+        const fallbacks = describeFallbacks(selected, this.versions);
+        if (fallbacks.length > 0) {
+            logger.info(`${recipe.name}: using ${fallbacks.join(', ')} to match this project.`);
+        }
+        this.recipeVersions.set(recipe.name, selected);
+    }
+
+    // Restores every touched file; false when there was nothing on disk to restore
+    private async rollback(): Promise<boolean> {
+        if (this.options.dryRun) return false;
+
+        const written = this.getChanges().length > 0;
+        for (const change of [...this.changes.values()].reverse()) {
+            if (change.original === null) {
+                await fs.remove(change.path);
+            } else {
+                await fs.writeFile(change.path, change.original);
+            }
+        }
+        this.changes.clear();
+        return written;
+    }
+
+    async remove(recipeName: string, options: { force?: boolean } = {}) {
+        const manifest = await this.readManifest();
+        const installed = await this.getInstalledAddons(manifest);
+        const addon = installed[recipeName];
+        if (!addon) {
+            throw new Error(`Addon "${recipeName}" is not installed in ${this.moduleName}.`);
+        }
+
+        const dependents = Object.entries(installed)
+            .filter(([name, other]) => name !== recipeName && other.dependencies.includes(recipeName))
+            .map(([name]) => name);
+        if (dependents.length > 0) {
+            throw new Error(`Cannot remove "${recipeName}": required by ${dependents.join(', ')}. Remove those first.`);
+        }
+
+        logger.info(`Removing addon: ${recipeName}...`);
+
+        // A step another installed addon also applied (e.g. the INTERNET permission) stays, and so do
+        // catalog entries and other project-wide steps the same addon still needs in another module
+        const otherSteps = [
+            ...Object.entries(installed).filter(([name]) => name !== recipeName).flatMap(([, other]) => other.steps),
+            ...Object.values(manifest.addons).filter(other => other.module !== this.moduleName).flatMap(other => other.steps.filter(isProjectWideStep))
+        ];
+        for (const step of [...addon.steps].reverse()) {
+            if (otherSteps.some(other => sameStep(other, step))) continue;
+            await this.revertStep(step, options.force ?? false);
+        }
+
+        delete manifest.addons[addonKey(this.moduleName, recipeName)];
+        await this.writeManifest(manifest);
+
+        if (addon.dependencies.length > 0) {
+            logger.info(`Dependencies left installed: ${addon.dependencies.join(', ')}`);
+        }
+    }
+
+    async listAddons(): Promise<AddonListing[]> {
+        const installed = await this.getInstalledAddons(await this.readManifest());
+        const catalog = await this.readCatalog();
+
+        const listings: Record<string, AddonListing> = {};
+        for (const recipe of Object.values(BUILTIN_RECIPES)) {
+            listings[recipe.name] = { name: recipe.name, description: recipe.description, source: 'builtin', installed: false, pinned: {} };
+        }
+        for (const recipe of await this.readProjectRecipes()) {
+            listings[recipe.name] = { name: recipe.name, description: recipe.description, source: 'local', installed: false, pinned: {} };
+        }
+        for (const recipe of await this.fetchRemoteIndex()) {
+            listings[recipe.name] ??= { name: recipe.name, description: recipe.description, source: 'remote', installed: false, pinned: {} };
+        }
+
+        for (const [name, addon] of Object.entries(installed)) {
+            const listing = listings[name] ??= { name, description: addon.description, source: 'remote', installed: false, pinned: {} };
+            listing.installed = true;
+            listing.installedAt = addon.installedAt;
+            for (const step of addon.steps.filter(s => s.type === 'toml_version')) {
+                const version = catalog?.getVersion(step.key!);
+                if (version) listing.pinned[step.key!] = version;
             }
         }
+
+        return Object.values(listings);
     }
 
-    private applyPatches(val: string): string {
+    /**
+     * Addons installed into this module, by name, plus built-in recipes that were applied
+     * before tracking existed (detected through their catalog entries).
+     */
+    private async getInstalledAddons(manifest: AddonManifest): Promise<Record<string, Pick<InstalledAddon, 'description' | 'dependencies' | 'steps' | 'installedAt'>>> {
+        const installed: Record<string, Pick<InstalledAddon, 'description' | 'dependencies' | 'steps' | 'installedAt'>> = {};
+        for (const addon of Object.values(manifest.addons)) {
+            if (addon.module === this.moduleName) installed[addon.name] = addon;
+        }
+
+        // The catalog is shared, so an addon tracked in any module is not an untracked one here
+        const tracked = new Set(Object.values(manifest.addons).map(addon => addon.name));
+        for (const recipe of Object.values(BUILTIN_RECIPES)) {
+            if (tracked.has(recipe.name) || !(await this.isInstalled(recipe))) continue;
+            installed[recipe.name] = {
+                description: recipe.description,
+                dependencies: recipe.dependencies ?? [],
+                steps: recipe.steps.map(step => this.patchStep(step)),
+                installedAt: 'unknown'
+            };
+        }
+
+        return installed;
+    }
+
+    private async recordInstall(recipe: AddonRecipe, steps: AddonStep[]) {
+        const usedVersions: Record<string, string> = {};
+        const selected = this.recipeVersions.get(recipe.name) ?? {};
+        for (const [, key] of JSON.stringify(recipe.steps).matchAll(/{{(\w+)}}/g)) {
+            const version = selected[key] ?? this.versions[key] ?? this.versions[`{{${key}}}`];
+            if (version) usedVersions[key] = version;
+        }
+
+        const manifest = await this.readManifest();
+        manifest.addons[addonKey(this.moduleName, recipe.name)] = {
+            name: recipe.name,
+            description: recipe.description,
+            module: this.moduleName,
+            dependencies: recipe.dependencies ?? [],
+            versions: usedVersions,
+            ...(recipe.sdkPackages ? { sdkPackages: recipe.sdkPackages } : {}),
+            installedAt: new Date().toISOString(),
+            ...this.origins.get(recipe.name),
+            steps
+        };
+        await this.writeManifest(manifest);
+    }
+
+    private async readManifest(): Promise<AddonManifest> {
+        const manifestPath = path.join(this.projectPath, ADDON_MANIFEST_NAME);
+        return parseAddonManifest(this.exists(manifestPath) ? await this.readFile(manifestPath) : null);
+    }
+
+    private async writeManifest(manifest: AddonManifest) {
+        await this.writeFile(path.join(this.projectPath, ADDON_MANIFEST_NAME), formatAddonManifest(manifest));
+    }
+
+    private async isInstalled(recipe: AddonRecipe): Promise<boolean> {
+        const catalog = await this.readCatalog();
+        if (!catalog) return false;
+
+        const sections: Partial<Record<AddonStep['type'], CatalogSection>> = {
+            toml_version: 'versions',
+            toml_library: 'libraries',
+            toml_plugin: 'plugins',
+        };
+        const tomlSteps = recipe.steps.filter(step => sections[step.type]);
+        if (tomlSteps.length === 0) return false;
+
+        return tomlSteps.every(step => catalog.has(sections[step.type]!, step.key!));
+    }
+
+    // Apply version patches to step values; `selected` overrides the resolved versions
+    private patchStep(step: AddonStep, selected: Record<string, string> = {}): AddonStep {
+        const patchedStep = { ...step };
+        if (patchedStep.value) patchedStep.value = this.applyPatches(patchedStep.value, selected);
+        if (patchedStep.replacement) patchedStep.replacement = this.applyPatches(patchedStep.replacement, selected);
+        if (patchedStep.content) patchedStep.content = this.applyPatches(patchedStep.content, selected);
+        return patchedStep;
+    }
+
+    private applyPatches(val: string, selected: Record<string, string> = {}): string {
         let result = val;
-        for (const [key, version] of Object.entries(this.versions)) {
+        for (const [key, version] of [...Object.entries(selected), ...Object.entries(this.versions)]) {
             const placeholder = key.startsWith('{{') ? key : `{{${key}}}`;
             result = result.replaceAll(placeholder, version);
         }
@@ -67,41 +371,183 @@ export class AddonManager {
     }
 
     private async executeStep(step: AddonStep) {
-        const tomlPath = path.join(this.projectPath, 'gradle', 'libs.versions.toml');
         const buildFile = path.join(this.projectPath, this.moduleName, 'build.gradle.kts');
         const rootBuildFile = path.join(this.projectPath, 'build.gradle.kts');
 
         switch (step.type) {
             case 'toml_version':
-                await this.updateTomlSection(tomlPath, '[versions]', `${step.key} = "${step.value}"`);
+                await this.editCatalog(catalog => catalog.set('versions', step.key!, `"${step.value}"`));
                 break;
             case 'toml_library':
-                await this.updateTomlSection(tomlPath, '[libraries]', `${step.key} = ${this.formatTomlValue(step.value!)}`);
+                await this.editCatalog(catalog => catalog.set('libraries', step.key!, this.formatTomlValue(step.value!)));
                 break;
             case 'toml_plugin':
-                await this.updateTomlSection(tomlPath, '[plugins]', `${step.key} = ${this.formatTomlValue(step.value!)}`);
+                await this.editCatalog(catalog => catalog.set('plugins', step.key!, this.formatTomlValue(step.value!)));
+                break;
+            case 'toml_bundle':
+                await this.editCatalog(catalog => catalog.addToBundle(step.key!, this.parseBundle(step.value!)));
                 break;
             case 'gradle_plugin_root':
-                await this.patchFile(rootBuildFile, 'plugins {', `plugins {\n    alias(libs.plugins.${step.key!.replace(/-/g, '.')}) apply false`);
+                await this.editBuildFile(rootBuildFile, gradle => gradle.addPlugin(this.pluginAlias(step.key!), false));
                 break;
             case 'gradle_plugin_module':
-                await this.patchFile(buildFile, 'plugins {', `plugins {\n    alias(libs.plugins.${step.key!.replace(/-/g, '.')})`);
+                await this.editBuildFile(buildFile, gradle => gradle.addPlugin(this.pluginAlias(step.key!)));
                 break;
+            case 'gradle_dependency':
             case 'gradle_implementation':
-                await this.patchFile(buildFile, 'dependencies {', `dependencies {\n    implementation(${step.value})`);
-                break;
             case 'gradle_ksp':
-                await this.patchFile(buildFile, 'dependencies {', `dependencies {\n    ksp(${step.value})`);
+                await this.editBuildFile(buildFile, gradle => gradle.addDependency(this.dependencyConfiguration(step), step.value!, this.dependencyBlock(gradle, step)));
+                break;
+            case 'gradle_android':
+                await this.editBuildFile(buildFile, gradle => gradle.setAndroidProperty(step.key!, step.value!));
+                break;
+            case 'gradle_property':
+                await this.editTextFile(this.propertiesPath(step), content => {
+                    const properties = new PropertiesFile(content);
+                    properties.set(step.key!, step.value!);
+                    return properties.toString();
+                });
+                break;
+            case 'manifest_permission':
+                await this.editTextFile(await this.manifestPath(step), content => {
+                    const manifest = new AndroidManifest(content);
+                    manifest.addPermission(step.value!);
+                    return manifest.toString();
+                }, EMPTY_MANIFEST);
+                break;
+            case 'manifest_component':
+                await this.editTextFile(await this.manifestPath(step), content => {
+                    const manifest = new AndroidManifest(content);
+                    manifest.addComponent(step.key!, step.content!);
+                    return manifest.toString();
+                }, EMPTY_MANIFEST);
+                break;
+            case 'xml_resource':
+                await this.editTextFile(this.projectFile(step.file!), content => {
+                    const resources = new ResourceXml(content);
+                    resources.add(step.content!);
+                    return resources.toString();
+                }, EMPTY_RESOURCES);
+                break;
+            case 'proguard_rule':
+                await this.editTextFile(this.proguardPath(step), content => appendRules(content, step.content!), '');
                 break;
             case 'patch_file':
-                const targetFile = path.join(this.projectPath, this.resolvePath(step.file!));
+                const targetFile = this.projectFile(step.file!);
                 await this.patchFile(targetFile, step.pattern!, step.replacement!);
                 break;
             case 'create_file':
-                const newFilePath = path.join(this.projectPath, this.resolvePath(step.file!));
+                const newFilePath = this.projectFile(step.file!);
                 const content = step.content!.replace(/{{PACKAGE_NAME}}/g, this.packageName);
-                await fs.ensureDir(path.dirname(newFilePath));
-                await fs.writeFile(newFilePath, content);
+                await this.writeFile(newFilePath, content);
+                break;
+        }
+    }
+
+    private async revertStep(step: AddonStep, force: boolean) {
+        const buildFile = path.join(this.projectPath, this.moduleName, 'build.gradle.kts');
+        const rootBuildFile = path.join(this.projectPath, 'build.gradle.kts');
+
+        switch (step.type) {
+            case 'toml_version':
+                await this.editCatalog(catalog => catalog.remove('versions', step.key!));
+                break;
+            case 'toml_library':
+                await this.editCatalog(catalog => catalog.remove('libraries', step.key!));
+                break;
+            case 'toml_plugin':
+                await this.editCatalog(catalog => catalog.remove('plugins', step.key!));
+                break;
+            case 'toml_bundle':
+                await this.editCatalog(catalog => catalog.removeFromBundle(step.key!, this.parseBundle(step.value!)));
+                break;
+            case 'gradle_plugin_root':
+                await this.editBuildFile(rootBuildFile, gradle => gradle.removePlugin(this.pluginAlias(step.key!)), false);
+                break;
+            case 'gradle_plugin_module':
+                await this.editBuildFile(buildFile, gradle => gradle.removePlugin(this.pluginAlias(step.key!)), false);
+                break;
+            case 'gradle_dependency':
+            case 'gradle_implementation':
+            case 'gradle_ksp':
+                await this.editBuildFile(buildFile, gradle => gradle.removeDependency(this.dependencyConfiguration(step), step.value!, this.dependencyBlock(gradle, step)), false);
+                break;
+            case 'gradle_android':
+                // The previous value is not recorded, so the setting is dropped back to the AGP default
+                await this.editBuildFile(buildFile, gradle => gradle.unsetAndroidProperty(step.key!), false);
+                break;
+            case 'gradle_property':
+                // Same as gradle_android: the key is removed rather than restored
+                await this.editTextFile(this.propertiesPath(step), content => {
+                    const properties = new PropertiesFile(content);
+                    properties.remove(step.key!);
+                    return properties.toString();
+                }, null, false);
+                break;
+            case 'manifest_permission':
+                const permissionManifest = await this.manifestPath(step);
+                await this.editTextFile(permissionManifest, content => {
+                    const manifest = new AndroidManifest(content);
+                    manifest.removePermission(step.value!);
+                    return manifest.toString();
+                }, null, false);
+                await this.removeFileIf(permissionManifest, content => content === EMPTY_MANIFEST);
+                break;
+            case 'manifest_component':
+                const componentManifest = await this.manifestPath(step);
+                await this.editTextFile(componentManifest, content => {
+                    const manifest = new AndroidManifest(content);
+                    manifest.removeComponent(step.key!);
+                    return manifest.toString();
+                }, null, false);
+                await this.removeFileIf(componentManifest, content => content === EMPTY_MANIFEST);
+                break;
+            case 'xml_resource':
+                const resourceFile = this.projectFile(step.file!);
+                await this.editTextFile(resourceFile, content => {
+                    const resources = new ResourceXml(content);
+                    resources.remove(step.content!);
+                    return resources.toString();
+                }, null, false);
+                await this.removeFileIf(resourceFile, content => new ResourceXml(content).isEmpty());
+                break;
+            case 'proguard_rule':
+                await this.editTextFile(this.proguardPath(step), content => removeRules(content, step.content!), null, false);
+                break;
+            case 'patch_file':
+                const targetFile = this.projectFile(step.file!);
+                if (!this.exists(targetFile)) break;
+                const original = await this.readFile(targetFile);
+                if (!original.includes(step.replacement!)) {
+                    logger.warn(`Could not revert patch in ${path.relative(this.projectPath, targetFile)}: expected content not found.`);
+                    break;
+                }
+                await this.writeFile(targetFile, original.replace(step.replacement!, step.pattern!));
+                break;
+            case 'create_file':
+                const filePath = this.projectFile(step.file!);
+                if (!this.exists(filePath)) break;
+
+                const expected = step.content!.replace(/{{PACKAGE_NAME}}/g, this.packageName);
+                const actual = await this.readFile(filePath);
+                if (actual !== expected && !force) {
+                    logger.warn(`${path.relative(this.projectPath, filePath)} has been modified since it was created.`);
+                    if (!process.stdin.isTTY) {
+                        logger.info(`Kept ${path.relative(this.projectPath, filePath)} (use --force to delete it).`);
+                        break;
+                    }
+                    const { confirmed } = await prompts({
+                        type: 'confirm',
+                        name: 'confirmed',
+                        message: 'Delete it anyway?',
+                        initial: false
+                    });
+                    if (!confirmed) {
+                        logger.info(`Kept ${path.relative(this.projectPath, filePath)}`);
+                        break;
+                    }
+                }
+                await this.removeFile(filePath);
                 break;
         }
     }
@@ -111,33 +557,194 @@ export class AddonManager {
                 .replace('{{PACKAGE_PATH}}', this.packageName.replace(/\./g, '/'));
     }
 
-    private async updateTomlSection(filePath: string, section: string, line: string) {
-        if (!fs.existsSync(filePath)) return;
-        let content = await fs.readFile(filePath, 'utf-8');
-        const key = line.split('=')[0].trim();
-        
-        const sectionIndex = content.indexOf(section);
-        if (sectionIndex === -1) return;
-        
-        const nextSectionIndex = content.indexOf('[', sectionIndex + section.length);
-        const sectionContent = nextSectionIndex === -1 
-            ? content.substring(sectionIndex) 
-            : content.substring(sectionIndex, nextSectionIndex);
-            
-        const keyRegex = new RegExp(`^${key}\\s*=`, 'm');
-        if (keyRegex.test(sectionContent)) return;
-
-        content = content.replace(section, `${section}\n${line}`);
+    // Recipe paths must stay inside the project, also through symlinked directories
+    private projectFile(p: string): string {
+        const filePath = path.resolve(this.projectPath, this.resolvePath(p));
+        let existing = filePath;
+        while (!fs.existsSync(existing)) existing = path.dirname(existing);
+
+        if (!isInside(this.projectPath, filePath) || !isInside(fs.realpathSync(this.projectPath), fs.realpathSync(existing), true)) {
+            throw new Error(`Path "${p}" resolves outside the project`);
+        }
+        return filePath;
+    }
+
+    private exists(filePath: string): boolean {
+        const change = this.changes.get(filePath);
+        if (change) return change.content !== null;
+        return fs.existsSync(filePath);
+    }
+
+    private async readFile(filePath: string): Promise<string> {
+        const change = this.changes.get(filePath);
+        if (change) {
+            if (change.content === null) throw new Error(`File was removed: ${filePath}`);
+            return change.content;
+        }
+        return fs.readFile(filePath, 'utf-8');
+    }
+
+    private async writeFile(filePath: string, content: string) {
+        await this.trackChange(filePath, content);
+        if (this.options.dryRun) return;
+        await fs.ensureDir(path.dirname(filePath));
         await fs.writeFile(filePath, content);
     }
 
+    private async removeFile(filePath: string) {
+        await this.trackChange(filePath, null);
+        if (this.options.dryRun) return;
+        await fs.remove(filePath);
+    }
+
+    private async trackChange(filePath: string, content: string | null) {
+        const existing = this.changes.get(filePath);
+        if (existing) {
+            existing.content = content;
+            return;
+        }
+        const original = fs.existsSync(filePath) ? await fs.readFile(filePath, 'utf-8') : null;
+        this.changes.set(filePath, { path: filePath, original, content });
+    }
+
     private async patchFile(filePath: string, pattern: string, replacement: string) {
-        if (!fs.existsSync(filePath)) return;
-        let content = await fs.readFile(filePath, 'utf-8');
+        if (!this.exists(filePath)) throw new Error(`File not found: ${path.relative(this.projectPath, filePath)}`);
+        let content = await this.readFile(filePath);
         if (content.includes(replacement.trim())) return;
+        if (!content.includes(pattern)) {
+            throw new Error(`Pattern "${pattern}" not found in ${path.relative(this.projectPath, filePath)}`);
+        }
 
         content = content.replace(pattern, replacement);
-        await fs.writeFile(filePath, content);
+        await this.writeFile(filePath, content);
+    }
+
+    private async editBuildFile(filePath: string, edit: (gradle: GradleBuildFile) => unknown, required = true) {
+        if (!this.exists(filePath)) {
+            if (!required) return;
+            throw new Error(`File not found: ${path.relative(this.projectPath, filePath)}`);
+        }
+        const before = await this.readFile(filePath);
+        const gradle = new GradleBuildFile(before);
+        edit(gradle);
+        const after = gradle.toString();
+        if (after !== before) await this.writeFile(filePath, after);
+    }
+
+    /**
+     * Applies a text edit to a file, starting from `initial` when it does not exist yet.
+     * Without `initial` a missing file is an error, or skipped when not `required`.
+     */
+    private async editTextFile(filePath: string, edit: (content: string) => string, initial: string | null = null, required = true) {
+        let before: string;
+        if (this.exists(filePath)) {
+            before = await this.readFile(filePath);
+        } else if (initial !== null) {
+            before = initial;
+        } else if (!required) {
+            return;
+        } else {
+            throw new Error(`File not found: ${path.relative(this.projectPath, filePath)}`);
+        }
+
+        const after = edit(before);
+        if (after !== before || !this.exists(filePath)) await this.writeFile(filePath, after);
+    }
+
+    // Deletes a file a step created once reverting leaves nothing of its own in it
+    private async removeFileIf(filePath: string, predicate: (content: string) => boolean) {
+        if (this.exists(filePath) && predicate(await this.readFile(filePath))) {
+            await this.removeFile(filePath);
+        }
+    }
+
+    private async manifestPath(step: AddonStep): Promise<string> {
+        if (step.file) return this.projectFile(step.file);
+        const sourceSet = (await this.isMultiplatformModule()) ? 'androidMain' : 'main';
+        return path.join(this.projectPath, this.moduleName, 'src', sourceSet, 'AndroidManifest.xml');
+    }
+
+    private propertiesPath(step: AddonStep): string {
+        return step.file ? this.projectFile(step.file) : path.join(this.projectPath, 'gradle.properties');
+    }
+
+    private proguardPath(step: AddonStep): string {
+        return step.file ? this.projectFile(step.file) : path.join(this.projectPath, this.moduleName, 'proguard-rules.pro');
+    }
+
+    private pluginAlias(key: string): string {
+        return `alias(libs.plugins.${key.replace(/-/g, '.')})`;
+    }
+
+    // KMP modules declare dependencies per source set inside `kotlin {}`
+    private dependencyBlock(gradle: GradleBuildFile, step: AddonStep): string[] {
+        if (!gradle.isMultiplatform()) return ['dependencies'];
+        return ['kotlin', 'sourceSets', `${step.sourceSet ?? 'commonMain'}.dependencies`];
+    }
+
+    private async isMultiplatformModule(): Promise<boolean> {
+        const buildFile = path.join(this.projectPath, this.moduleName, 'build.gradle.kts');
+        if (!this.exists(buildFile)) return false;
+        return new GradleBuildFile(await this.readFile(buildFile)).isMultiplatform();
+    }
+
+    // gradle_implementation and gradle_ksp are shorthands kept for existing recipes
+    private dependencyConfiguration(step: AddonStep): string {
+        if (step.type === 'gradle_implementation') return 'implementation';
+        if (step.type === 'gradle_ksp') return 'ksp';
+        if (!step.configuration) throw new Error('gradle_dependency step requires a "configuration"');
+        return step.configuration;
+    }
+
+    // Kotlin and AGP from the catalog; minSdk from the module, or build-logic's ProjectConfig
+    private async readProjectVersions(): Promise<ProjectVersions> {
+        const catalog = await this.readCatalog();
+        const catalogVersions: Record<string, string> = {};
+        for (const key of catalog?.keys('versions') ?? []) {
+            const version = catalog!.getVersion(key);
+            if (version) catalogVersions[key] = version;
+        }
+
+        let minSdk: number | undefined;
+        const sources = [
+            [path.join(this.projectPath, this.moduleName, 'build.gradle.kts'), /\bminSdk\s*=\s*(\d+)/],
+            [path.join(this.projectPath, BUILD_LOGIC_DIR, 'convention', 'src', 'main', 'kotlin', 'ProjectConfig.kt'), /\bMIN_SDK\s*=\s*(\d+)/]
+        ] as const;
+        for (const [file, pattern] of sources) {
+            const match = this.exists(file) ? (await this.readFile(file)).match(pattern) : null;
+            if (match) {
+                minSdk = Number(match[1]);
+                break;
+            }
+        }
+
+        return { kotlin: catalogVersions['kotlin'], agp: catalogVersions['agp'], minSdk, catalog: catalogVersions };
+    }
+
+    private async readCatalog(): Promise<VersionCatalog | null> {
+        const tomlPath = path.join(this.projectPath, 'gradle', 'libs.versions.toml');
+        if (!this.exists(tomlPath)) return null;
+        return VersionCatalog.parse(await this.readFile(tomlPath));
+    }
+
+    private async editCatalog(edit: (catalog: VersionCatalog) => unknown) {
+        const tomlPath = path.join(this.projectPath, 'gradle', 'libs.versions.toml');
+        const catalog = await this.readCatalog();
+        if (!catalog) throw new Error(`File not found: ${path.relative(this.projectPath, tomlPath)}`);
+
+        const before = catalog.toString();
+        edit(catalog);
+        const after = catalog.toString();
+        if (after !== before) await this.writeFile(tomlPath, after);
+    }
+
+    // Bundle steps take a TOML array (`["a", "b"]`) or a comma-separated list
+    private parseBundle(val: string): string[] {
+        if (val.trim().startsWith('[')) {
+            const parsed = parseTomlValue(val);
+            return Array.isArray(parsed) ? parsed.map(String) : [];
+        }
+        return val.split(',').map(v => v.trim()).filter(Boolean);
     }
 
     private formatTomlValue(val: string): string {
@@ -145,18 +752,155 @@ export class AddonManager {
         return `"${val}"`;
     }
 
+    private get registryUrl(): string {
+        return (this.options.registryUrl ?? process.env.CREATE_DROID_REGISTRY ?? AddonManager.REGISTRY_URL).replace(/\/+$/, '');
+    }
+
+    /**
+     * Looks a recipe up as a file path (`./recipes/analytics.json`), then in the project's
+     * `recipes/` directory, the built-ins and finally the registry.
+     */
     private async resolveRecipe(name: string): Promise<AddonRecipe | null> {
-        if (BUILTIN_RECIPES[name]) return BUILTIN_RECIPES[name];
-        
+        const cached = this.recipes.get(name);
+        if (cached) return cached;
+
+        let recipe: AddonRecipe | null;
+        const projectRecipe = path.join(this.projectPath, PROJECT_RECIPES_DIR, `${name}.json`);
+        if (name.endsWith('.json') || /^\.{0,2}[\\/]/.test(name)) {
+            recipe = await this.loadRecipeFile(path.resolve(process.cwd(), name));
+        } else if (fs.existsSync(projectRecipe)) {
+            recipe = this.checkRecipeName(await this.loadRecipeFile(projectRecipe), name, projectRecipe);
+        } else if (BUILTIN_RECIPES[name]) {
+            recipe = BUILTIN_RECIPES[name];
+        } else {
+            recipe = await this.fetchRecipe(name);
+        }
+
+        if (recipe) this.recipes.set(name, recipe);
+        return recipe;
+    }
+
+    private async loadRecipeFile(filePath: string): Promise<AddonRecipe> {
+        if (!fs.existsSync(filePath)) {
+            throw new Error(`Recipe file not found: ${filePath}`);
+        }
+        let raw: unknown;
+        try {
+            raw = await fs.readJSON(filePath);
+        } catch (e: any) {
+            throw new Error(`Invalid recipe ${filePath}: ${e.message}`);
+        }
+        return validateRecipe(raw, path.relative(process.cwd(), filePath) || filePath);
+    }
+
+    private async fetchRecipe(name: string): Promise<AddonRecipe | null> {
+        if (this.options.offline) {
+            throw new Error(`Recipe "${name}" is not available offline: only ${PROJECT_RECIPES_DIR}/ and the built-in recipes can be installed without the registry.`);
+        }
+        const url = `${this.registryUrl}/${name}.json`;
+        let response: Response;
+        try {
+            response = await fetch(url);
+        } catch (e: any) {
+            logger.warn(`Could not reach the recipe registry ${this.registryUrl}: ${e.message}`);
+            return null;
+        }
+        if (response.status === 404) return null;
+        if (!response.ok) {
+            throw new Error(`Recipe registry returned ${response.status} ${response.statusText} for ${url}`);
+        }
+
+        const body = await response.text();
+        let raw: unknown;
         try {
-            const url = `https://raw.githubusercontent.com/YELrhilassi/create-android-app/main/addons/${name}.json`;
-            const response = await fetch(url);
+            raw = JSON.parse(body);
+        } catch (e: any) {
+            throw new Error(`Invalid recipe ${url}: ${e.message}`);
+        }
+        const recipe = this.checkRecipeName(validateRecipe(raw, url), name, url);
+
+        const checksum = sha256(body);
+        await this.verifyRemoteRecipe(recipe, url, checksum);
+        this.origins.set(recipe.name, { source: url, sha256: checksum });
+        return recipe;
+    }
+
+    /**
+     * Remote recipes run only when they match a `--sha256` pin, were trusted before with
+     * the same checksum, `--trust` is given, or the user approves their steps.
+     */
+    private async verifyRemoteRecipe(recipe: AddonRecipe, url: string, checksum: string) {
+        const pinned = this.options.checksums?.[recipe.name];
+        if (pinned) {
+            if (pinned.toLowerCase() !== checksum) {
+                throw new Error(`Checksum mismatch for ${url}: expected ${pinned}, got ${checksum}`);
+            }
+            return;
+        }
+
+        const trusted = await getTrustedChecksum(url);
+        if (trusted === checksum || this.options.trust || this.options.dryRun) return;
+        if (trusted) {
+            logger.warn(`${url} has changed since it was trusted (sha256 ${trusted}).`);
+        }
+
+        logger.step(`Remote recipe "${recipe.name}" from ${url}`);
+        console.log(`  sha256 ${checksum}`);
+        for (const step of recipe.steps) {
+            console.log(`  - ${describeStep(step)}`);
+        }
+
+        if (!process.stdin.isTTY) {
+            throw new Error(`Remote recipe "${recipe.name}" is not trusted. Review it, then re-run with --trust or --sha256 ${checksum}.`);
+        }
+        const { confirmed } = await prompts({
+            type: 'confirm',
+            name: 'confirmed',
+            message: `Trust and install "${recipe.name}"?`,
+            initial: false
+        });
+        if (!confirmed) {
+            throw new Error(`Remote recipe "${recipe.name}" was not trusted.`);
+        }
+        await trustRecipe(url, checksum);
+    }
+
+    // Recipes found by name must be the recipe that name refers to
+    private checkRecipeName(recipe: AddonRecipe, name: string, source: string): AddonRecipe {
+        if (recipe.name !== name) {
+            throw new Error(`Invalid recipe ${source}:\n  - name: expected "${name}", got "${recipe.name}"`);
+        }
+        return recipe;
+    }
+
+    private async readProjectRecipes(): Promise<AddonRecipe[]> {
+        const recipesDir = path.join(this.projectPath, PROJECT_RECIPES_DIR);
+        if (!fs.existsSync(recipesDir)) return [];
+
+        const recipes: AddonRecipe[] = [];
+        for (const file of (await fs.readdir(recipesDir)).filter(f => f.endsWith('.json')).sort()) {
+            try {
+                recipes.push(await this.loadRecipeFile(path.join(recipesDir, file)));
+            } catch (e: any) {
+                logger.warn(e.message);
+            }
+        }
+        return recipes;
+    }
+
+    private async fetchRemoteIndex(): Promise<Pick<AddonRecipe, 'name' | 'description'>[]> {
+        if (this.options.offline) {
+            logger.info(`Offline: registry recipes from ${this.registryUrl} are not available.`);
+            return [];
+        }
+        try {
+            const response = await fetch(`${this.registryUrl}/index.json`);
             if (response.ok) {
-                return await response.json() as AddonRecipe;
+                return await response.json() as Pick<AddonRecipe, 'name' | 'description'>[];
             }
         } catch (e) {}
-        
-        return null;
+
+        return [];
     }
 }
 
@@ -167,7 +911,8 @@ export const BUILTIN_RECIPES: Record<string, AddonRecipe> = {
         steps: [
             { type: 'toml_version', key: 'coil', value: '{{COIL_VERSION}}' },
             { type: 'toml_library', key: 'androidx-coil', value: 'io.coil-kt:coil-compose:{{COIL_VERSION}}' },
-            { type: 'gradle_implementation', value: 'libs.androidx.coil' }
+            { type: 'gradle_implementation', value: 'libs.androidx.coil' },
+            { type: 'manifest_permission', value: 'android.permission.INTERNET' }
         ]
     },
     hilt: {
@@ -211,6 +956,20 @@ export const BUILTIN_RECIPES: Record<string, AddonRecipe> = {
     ksp: {
         name: 'ksp',
         description: 'Kotlin Symbol Processing',
+        // Every KSP release is built for exactly one Kotlin version
+        versions: {
+            KSP_VERSION: [
+                { range: '>=2.1.10 <2.1.11', kotlin: '2.1.10', latest: '2.1.10-1.0.31' },
+                { range: '>=2.1.0 <2.1.1', kotlin: '2.1.0', latest: '2.1.0-1.0.29' },
+                { range: '>=2.0.21 <2.0.22', kotlin: '2.0.21', latest: '2.0.21-1.0.28' },
+                { range: '>=2.0.20 <2.0.21', kotlin: '2.0.20', latest: '2.0.20-1.0.25' },
+                { range: '>=2.0.10 <2.0.11', kotlin: '2.0.10', latest: '2.0.10-1.0.24' },
+                { range: '>=2.0.0 <2.0.1', kotlin: '2.0.0', latest: '2.0.0-1.0.24' },
+                { range: '>=1.9.24 <1.9.25', kotlin: '1.9.24', latest: '1.9.24-1.0.20' },
+                { range: '>=1.9.23 <1.9.24', kotlin: '1.9.23', latest: '1.9.23-1.0.20' },
+                { range: '>=1.9.22 <1.9.23', kotlin: '1.9.22', latest: '1.9.22-1.0.17' }
+            ]
+        },
         steps: [
             { type: 'toml_version', key: 'ksp', value: '{{KSP_VERSION}}' },
             { type: 'toml_plugin', key: 'ksp', value: '{ id = "com.google.devtools.ksp", version.ref = "ksp" }' },
@@ -226,26 +985,42 @@ export const BUILTIN_RECIPES: Record<string, AddonRecipe> = {
             { type: 'toml_library', key: 'retrofit', value: 'com.squareup.retrofit2:retrofit:{{RETROFIT_VERSION}}' },
             { type: 'toml_library', key: 'converter-gson', value: 'com.squareup.retrofit2:converter-gson:{{RETROFIT_VERSION}}' },
             { type: 'gradle_implementation', value: 'libs.retrofit' },
-            { type: 'gradle_implementation', value: 'libs.converter.gson' }
+            { type: 'gradle_implementation', value: 'libs.converter.gson' },
+            { type: 'manifest_permission', value: 'android.permission.INTERNET' }
         ]
     },
     ktor: {
         name: 'ktor',
         description: 'Multiplatform HTTP Client',
+        multiplatform: true,
         steps: [
             { type: 'toml_version', key: 'ktor', value: '{{KTOR_VERSION}}' },
             { type: 'toml_library', key: 'ktor-client-core', value: 'io.ktor:ktor-client-core:{{KTOR_VERSION}}' },
             { type: 'toml_library', key: 'ktor-client-okhttp', value: 'io.ktor:ktor-client-okhttp:{{KTOR_VERSION}}' },
-            { type: 'gradle_implementation', value: 'libs.ktor.client.core' },
-            { type: 'gradle_implementation', value: 'libs.ktor.client.okhttp' }
+            { type: 'toml_bundle', key: 'ktor', value: '["ktor-client-core", "ktor-client-okhttp"]' },
+            { type: 'gradle_implementation', value: 'libs.bundles.ktor', target: 'android' },
+            { type: 'gradle_implementation', value: 'libs.ktor.client.core', target: 'multiplatform', sourceSet: 'commonMain' },
+            { type: 'gradle_implementation', value: 'libs.ktor.client.okhttp', target: 'multiplatform', sourceSet: 'androidMain' },
+            { type: 'gradle_implementation', value: 'libs.ktor.client.okhttp', target: 'multiplatform', sourceSet: 'jvmMain' },
+            { type: 'manifest_permission', value: 'android.permission.INTERNET' }
         ]
     },
     serialization: {
         name: 'serialization',
         description: 'Kotlin Serialization',
+        multiplatform: true,
+        versions: {
+            SERIALIZATION_VERSION: [
+                { range: '>=1.9.0', kotlin: '>=2.2.0', latest: '1.9.0' },
+                { range: '>=1.8.0 <1.9.0', kotlin: '>=2.1.0', latest: '1.8.0' },
+                { range: '>=1.7.0 <1.8.0', kotlin: '>=2.0.0', latest: '1.7.3' },
+                { range: '>=1.6.0 <1.7.0', kotlin: '>=1.9.0', latest: '1.6.3' }
+            ]
+        },
         steps: [
+            { type: 'toml_version', key: 'kotlinxSerialization', value: '{{SERIALIZATION_VERSION}}' },
             { type: 'toml_plugin', key: 'kotlin-serialization', value: '{ id = "org.jetbrains.kotlin.plugin.serialization", version.ref = "kotlin" }' },
-            { type: 'toml_library', key: 'kotlinx-serialization-json', value: 'org.jetbrains.kotlinx:kotlinx-serialization-json:1.6.3' },
+            { type: 'toml_library', key: 'kotlinx-serialization-json', value: '{ group = "org.jetbrains.kotlinx", name = "kotlinx-serialization-json", version.ref = "kotlinxSerialization" }' },
             { type: 'gradle_plugin_root', key: 'kotlin-serialization' },
             { type: 'gradle_plugin_module', key: 'kotlin-serialization' },
             { type: 'gradle_implementation', value: 'libs.kotlinx.serialization.json' }
@@ -273,5 +1048,47 @@ export const BUILTIN_RECIPES: Record<string, AddonRecipe> = {
             { type: 'gradle_implementation', value: 'libs.androidx.room.ktx' },
             { type: 'gradle_ksp', value: 'libs.androidx.room.compiler' }
         ]
+    },
+    glance: {
+        name: 'glance',
+        description: 'Home screen widget with Jetpack Glance (needs a Compose module)',
+        steps: [
+            { type: 'toml_version', key: 'glance', value: '{{GLANCE_VERSION}}' },
+            { type: 'toml_library', key: 'androidx-glance-appwidget', value: 'androidx.glance:glance-appwidget:{{GLANCE_VERSION}}' },
+            { type: 'toml_library', key: 'androidx-glance-material3', value: 'androidx.glance:glance-material3:{{GLANCE_VERSION}}' },
+            { type: 'gradle_implementation', value: 'libs.androidx.glance.appwidget' },
+            { type: 'gradle_implementation', value: 'libs.androidx.glance.material3' },
+            {
+                type: 'create_file',
+                file: '{{MODULE}}/src/main/kotlin/{{PACKAGE_PATH}}/widget/AppWidget.kt',
+                content: 'package {{PACKAGE_NAME}}.widget\n\nimport android.content.Context\nimport androidx.compose.ui.unit.dp\nimport androidx.glance.GlanceId\nimport androidx.glance.GlanceModifier\nimport androidx.glance.GlanceTheme\nimport androidx.glance.appwidget.GlanceAppWidget\nimport androidx.glance.appwidget.GlanceAppWidgetReceiver\nimport androidx.glance.appwidget.provideContent\nimport androidx.glance.background\nimport androidx.glance.layout.Alignment\nimport androidx.glance.layout.Box\nimport androidx.glance.layout.fillMaxSize\nimport androidx.glance.layout.padding\nimport androidx.glance.text.Text\nimport androidx.glance.text.TextStyle\n\nclass AppWidget : GlanceAppWidget() {\n    override suspend fun provideGlance(context: Context, id: GlanceId) {\n        provideContent {\n            GlanceTheme {\n                Box(\n                    modifier = GlanceModifier.fillMaxSize().background(GlanceTheme.colors.widgetBackground).padding(16.dp),\n                    contentAlignment = Alignment.Center\n                ) {\n                    Text(text = "Hello from Glance!", style = TextStyle(color = GlanceTheme.colors.onSurface))\n                }\n            }\n        }\n    }\n}\n\nclass AppWidgetReceiver : GlanceAppWidgetReceiver() {\n    override val glanceAppWidget: GlanceAppWidget = AppWidget()\n}\n'
+            },
+            {
+                type: 'create_file',
+                file: '{{MODULE}}/src/main/res/xml/app_widget_info.xml',
+                content: '<?xml version="1.0" encoding="utf-8"?>\n<appwidget-provider xmlns:android="http://schemas.android.com/apk/res/android"\n    android:initialLayout="@layout/glance_default_loading_layout"\n    android:minWidth="110dp"\n    android:minHeight="40dp"\n    android:resizeMode="horizontal|vertical"\n    android:targetCellWidth="2"\n    android:targetCellHeight="1"\n    android:updatePeriodMillis="0"\n    android:widgetCategory="home_screen" />\n'
+            },
+            {
+                type: 'manifest_component',
+                key: '.widget.AppWidgetReceiver',
+                content: '<receiver\n    android:name=".widget.AppWidgetReceiver"\n    android:exported="true">\n    <intent-filter>\n        <action android:name="android.appwidget.action.APPWIDGET_UPDATE" />\n    </intent-filter>\n    <meta-data\n        android:name="android.appwidget.provider"\n        android:resource="@xml/app_widget_info" />\n</receiver>'
+            }
+        ]
     }
 };
+
+function isInside(root: string, target: string, allowRoot = false): boolean {
+    const relative = path.relative(root, target);
+    if (relative === '') return allowRoot;
+    return relative.split(path.sep)[0] !== '..' && !path.isAbsolute(relative);
+}
+
+// Steps that edit the catalog, the root build or other files shared by every module
+function isProjectWideStep(step: AddonStep): boolean {
+    if (step.file) return !/{{(MODULE|PACKAGE_PATH)}}/.test(step.file);
+    return step.type.startsWith('toml_') || step.type === 'gradle_plugin_root' || step.type === 'gradle_property';
+}
+
+function sameStep(a: AddonStep, b: AddonStep): boolean {
+    return a.type === b.type && a.key === b.key && a.value === b.value && a.file === b.file && a.content === b.content;
+}
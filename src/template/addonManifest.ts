@@ -0,0 +1,45 @@
+import type { AddonStep } from './addonManager.js';
+
+export const ADDON_MANIFEST_NAME = 'create-droid.addons.json';
+
+export interface InstalledAddon {
+    name: string;
+    description: string;
+    module: string;
+    dependencies: string[];
+    versions: Record<string, string>;
+    // Android SDK packages the addon needs (NDK, CMake, system images)
+    sdkPackages?: string[];
+    installedAt: string;
+    // Registry URL and checksum of remote recipes
+    source?: string;
+    sha256?: string;
+    steps: AddonStep[];
+}
+
+export interface AddonManifest {
+    // Keyed by `addonKey()`, so the same addon can be installed into several modules
+    addons: Record<string, InstalledAddon>;
+}
+
+export function addonKey(module: string, name: string): string {
+    return `${module}:${name}`;
+}
+
+export function parseAddonManifest(content: string | null): AddonManifest {
+    if (!content) return { addons: {} };
+
+    const manifest = JSON.parse(content);
+    const addons: Record<string, InstalledAddon> = {};
+    for (const [key, addon] of Object.entries<any>(manifest.addons ?? {})) {
+        // Manifests written before per-module tracking are keyed by the addon name alone
+        const name = addon.name ?? key;
+        const module = addon.module ?? 'app';
+        addons[addonKey(module, name)] = { ...addon, name, module };
+    }
+    return { addons };
+}
+
+export function formatAddonManifest(manifest: AddonManifest): string {
+    return JSON.stringify(manifest, null, 2) + '\n';
+}
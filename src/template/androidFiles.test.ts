@@ -0,0 +1,70 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AndroidManifest, ResourceXml, PropertiesFile, appendRules, removeRules, EMPTY_RESOURCES } from './androidFiles.js';
+
+const MANIFEST = `<?xml version="1.0" encoding="utf-8"?>
+<manifest xmlns:android="http://schemas.android.com/apk/res/android">
+
+    <application android:label="Demo">
+        <activity android:name=".MainActivity" android:exported="true" />
+    </application>
+
+</manifest>
+`;
+
+test('permissions are added once and removed without leaving a gap', () => {
+    const manifest = new AndroidManifest(MANIFEST);
+    assert.equal(manifest.addPermission('android.permission.INTERNET'), true);
+    assert.equal(manifest.addPermission('android.permission.INTERNET'), false);
+    assert.equal(manifest.addPermission('android.permission.CAMERA'), true);
+    assert.match(manifest.toString(), /INTERNET" \/>\n {4}<uses-permission android:name="android.permission.CAMERA" \/>\n\n {4}<application/);
+
+    manifest.removePermission('android.permission.CAMERA');
+    manifest.removePermission('android.permission.INTERNET');
+    assert.equal(manifest.toString(), MANIFEST);
+});
+
+test('components go last in <application> and come out again', () => {
+    const manifest = new AndroidManifest(MANIFEST);
+    const receiver = '<receiver android:name=".Widget" android:exported="false">\n    <intent-filter />\n</receiver>';
+    assert.equal(manifest.addComponent('.Widget', receiver), true);
+    assert.equal(manifest.addComponent('.Widget', receiver), false);
+    assert.match(manifest.toString(), / {8}<receiver android:name=".Widget" android:exported="false">\n {12}<intent-filter \/>\n {8}<\/receiver>\n {4}<\/application>/);
+
+    assert.equal(manifest.removeComponent('.Widget'), true);
+    assert.equal(manifest.toString(), MANIFEST);
+});
+
+test('resources are idempotent by tag and name and refuse a different value', () => {
+    const resources = new ResourceXml(EMPTY_RESOURCES);
+    assert.equal(resources.add('<string name="app_name">Demo</string>'), true);
+    assert.equal(resources.add('<string name="app_name">Demo</string>'), false);
+    assert.throws(() => resources.add('<string name="app_name">Other</string>'), /already exists with a different value/);
+    assert.equal(resources.isEmpty(), false);
+
+    assert.equal(resources.remove('<string name="app_name">Demo</string>'), true);
+    assert.equal(resources.toString(), EMPTY_RESOURCES);
+    assert.equal(resources.isEmpty(), true);
+});
+
+test('properties keep other lines and replace a key in place', () => {
+    const original = '# Project-wide Gradle settings\norg.gradle.jvmargs=-Xmx2048m\nandroid.useAndroidX = true\n';
+    const properties = new PropertiesFile(original);
+    assert.equal(properties.set('android.useAndroidX', 'true'), true);
+    assert.equal(properties.set('android.useAndroidX', 'true'), false);
+    assert.equal(properties.set('kotlin.code.style', 'official'), true);
+    assert.equal(properties.toString(), '# Project-wide Gradle settings\norg.gradle.jvmargs=-Xmx2048m\nandroid.useAndroidX=true\nkotlin.code.style=official\n');
+
+    properties.remove('kotlin.code.style');
+    assert.equal(properties.remove('kotlin.code.style'), false);
+    assert.equal(properties.toString(), original.replace('android.useAndroidX = true', 'android.useAndroidX=true'));
+});
+
+test('ProGuard rules are appended as one paragraph and removed exactly', () => {
+    const original = '-keep class com.acme.** { *; }\n';
+    const rules = '-keepattributes Signature\n-keep class retrofit2.** { *; }';
+    const added = appendRules(original, rules);
+    assert.equal(added, `${original}\n${rules}\n`);
+    assert.equal(appendRules(added, rules), added);
+    assert.equal(removeRules(added, rules), original);
+});
@@ -0,0 +1,247 @@
+// Line-based editors for AndroidManifest.xml, values resources, .properties and ProGuard files.
+// Every edit is idempotent and removes exactly the lines it added.
+
+export const EMPTY_MANIFEST = '<?xml version="1.0" encoding="utf-8"?>\n<manifest xmlns:android="http://schemas.android.com/apk/res/android">\n\n</manifest>\n';
+export const EMPTY_RESOURCES = '<?xml version="1.0" encoding="utf-8"?>\n<resources>\n</resources>\n';
+
+const COMPONENT_TAGS = 'activity|activity-alias|service|receiver|provider';
+const INDENT = '    ';
+
+export class AndroidManifest {
+    private lines: string[];
+
+    constructor(content: string) {
+        this.lines = content.split('\n');
+    }
+
+    hasPermission(name: string): boolean {
+        return this.permissionLine(name) !== -1;
+    }
+
+    addPermission(name: string): boolean {
+        if (this.hasPermission(name)) return false;
+        const line = `${INDENT}<uses-permission android:name="${name}" />`;
+
+        const last = this.lastIndexWhere(l => /<uses-permission\b/.test(l));
+        if (last !== -1) {
+            this.lines.splice(last + 1, 0, line);
+            return true;
+        }
+        // First permission: its own paragraph above <application>
+        const application = this.lines.findIndex(l => /<application\b/.test(l));
+        const at = application !== -1 ? application : this.manifestEnd();
+        this.lines.splice(at, 0, line, '');
+        return true;
+    }
+
+    removePermission(name: string): boolean {
+        const index = this.permissionLine(name);
+        if (index === -1) return false;
+        this.removeLines(index, index);
+        return true;
+    }
+
+    hasComponent(name: string): boolean {
+        return this.findComponent(name) !== null;
+    }
+
+    /** Adds a component element (`<receiver android:name="...">...`) as the last child of `<application>`. */
+    addComponent(name: string, element: string): boolean {
+        if (this.hasComponent(name)) return false;
+
+        let end = this.lines.findIndex(l => /<\/application>/.test(l));
+        if (end === -1) {
+            const selfClosing = this.lines.findIndex(l => /<application\b[^>]*\/>/.test(l));
+            if (selfClosing !== -1) {
+                this.lines[selfClosing] = this.lines[selfClosing].replace(/\s*\/>/, '>');
+                this.lines.splice(selfClosing + 1, 0, `${INDENT}</application>`);
+                end = selfClosing + 1;
+            } else {
+                const at = this.manifestEnd();
+                this.lines.splice(at, 0, `${INDENT}<application>`, `${INDENT}</application>`);
+                end = at + 1;
+            }
+        }
+
+        const indent = (this.lines[end].match(/^\s*/)?.[0] ?? INDENT) + INDENT;
+        this.lines.splice(end, 0, ...reindent(element, indent));
+        return true;
+    }
+
+    removeComponent(name: string): boolean {
+        const range = this.findComponent(name);
+        if (!range) return false;
+        this.removeLines(range[0], range[1]);
+        return true;
+    }
+
+    toString(): string {
+        return this.lines.join('\n');
+    }
+
+    private permissionLine(name: string): number {
+        return this.lines.findIndex(l => /<uses-permission\b/.test(l) && l.includes(`android:name="${name}"`));
+    }
+
+    private findComponent(name: string): [number, number] | null {
+        return findElement(this.lines, new RegExp(`<(${COMPONENT_TAGS})\\b[^>]*android:name="${escapeRegExp(name)}"`));
+    }
+
+    private manifestEnd(): number {
+        const end = this.lastIndexWhere(l => /<\/manifest>/.test(l));
+        if (end === -1) throw new Error('No </manifest> tag found');
+        return end;
+    }
+
+    private lastIndexWhere(predicate: (line: string) => boolean): number {
+        for (let i = this.lines.length - 1; i >= 0; i--) {
+            if (predicate(this.lines[i])) return i;
+        }
+        return -1;
+    }
+
+    private removeLines(start: number, end: number) {
+        this.lines.splice(start, end - start + 1);
+        // Drop the paragraph break a lone element leaves behind
+        if (this.lines[start - 1]?.trim() === '' && this.lines[start]?.trim() === '') {
+            this.lines.splice(start, 1);
+        }
+    }
+}
+
+/** A `res/values/*.xml` file; resources are identified by tag and `name`. */
+export class ResourceXml {
+    private lines: string[];
+
+    constructor(content: string) {
+        this.lines = content.split('\n');
+    }
+
+    get(element: string): string | null {
+        const range = this.findResource(element);
+        return range ? this.lines.slice(range[0], range[1] + 1).map(l => l.trim()).join('\n') : null;
+    }
+
+    add(element: string): boolean {
+        const existing = this.get(element);
+        if (existing !== null) {
+            if (existing === normalize(element)) return false;
+            const [tag, name] = resourceId(element);
+            throw new Error(`<${tag} name="${name}"> already exists with a different value`);
+        }
+
+        const end = this.lines.findIndex(l => /<\/resources>/.test(l));
+        if (end === -1) throw new Error('No </resources> tag found');
+        const indent = (this.lines[end].match(/^\s*/)?.[0] ?? '') + INDENT;
+        this.lines.splice(end, 0, ...reindent(element, indent));
+        return true;
+    }
+
+    remove(element: string): boolean {
+        const range = this.findResource(element);
+        if (!range) return false;
+        this.lines.splice(range[0], range[1] - range[0] + 1);
+        return true;
+    }
+
+    isEmpty(): boolean {
+        return !this.lines.some(l => /<(?!\/?resources\b|\?xml|!--)[\w-]+/.test(l));
+    }
+
+    toString(): string {
+        return this.lines.join('\n');
+    }
+
+    private findResource(element: string): [number, number] | null {
+        const [tag, name] = resourceId(element);
+        return findElement(this.lines, new RegExp(`<${escapeRegExp(tag)}\\b[^>]*\\bname="${escapeRegExp(name)}"`));
+    }
+}
+
+/** A Java `.properties` file such as gradle.properties. */
+export class PropertiesFile {
+    private lines: string[];
+
+    constructor(content: string) {
+        this.lines = content.split('\n');
+    }
+
+    set(key: string, value: string): boolean {
+        const line = `${key}=${value}`;
+        const index = this.keyLine(key);
+        if (index !== -1) {
+            if (this.lines[index] === line) return false;
+            this.lines[index] = line;
+            return true;
+        }
+        const insertAt = this.lines[this.lines.length - 1] === '' ? this.lines.length - 1 : this.lines.length;
+        this.lines.splice(insertAt, 0, line);
+        return true;
+    }
+
+    remove(key: string): boolean {
+        const index = this.keyLine(key);
+        if (index === -1) return false;
+        this.lines.splice(index, 1);
+        return true;
+    }
+
+    toString(): string {
+        return this.lines.join('\n');
+    }
+
+    private keyLine(key: string): number {
+        return this.lines.findIndex(l => new RegExp(`^\\s*${escapeRegExp(key)}\\s*[=:]`).test(l));
+    }
+}
+
+/** Appends a block of ProGuard rules as its own paragraph unless it is already there. */
+export function appendRules(content: string, rules: string): string {
+    const block = rules.trim();
+    if (content.includes(block)) return content;
+    const base = content.replace(/\n*$/, '');
+    return `${base}${base ? '\n\n' : ''}${block}\n`;
+}
+
+export function removeRules(content: string, rules: string): string {
+    const block = rules.trim();
+    if (!content.includes(block)) return content;
+    return content.replace(new RegExp(`\\n*${escapeRegExp(block)}\\n?`), '\n').replace(/^\n/, '');
+}
+
+// Start and end line of the first element whose opening tag matches `opening`
+function findElement(lines: string[], opening: RegExp): [number, number] | null {
+    const text = lines.join('\n');
+    const match = opening.exec(text);
+    if (!match) return null;
+
+    const tag = match[0].match(/^<([\w-]+)/)![1];
+    const afterOpen = text.indexOf('>', match.index);
+    const selfClosing = text[afterOpen - 1] === '/';
+    const endIndex = selfClosing ? afterOpen : text.indexOf(`</${tag}>`, afterOpen);
+    if (endIndex === -1) return null;
+
+    const lineOf = (index: number) => text.slice(0, index).split('\n').length - 1;
+    return [lineOf(match.index), lineOf(endIndex)];
+}
+
+function resourceId(element: string): [string, string] {
+    const match = element.match(/<([\w-]+)\b[^>]*\bname="([^"]+)"/);
+    if (!match) throw new Error(`Expected a resource element with a name attribute, got ${JSON.stringify(element)}`);
+    return [match[1], match[2]];
+}
+
+// Strips the element's own indentation and nests it at `indent`
+function reindent(element: string, indent: string): string[] {
+    const lines = element.replace(/^\s*\n|\s+$/g, '').split('\n');
+    const common = Math.min(...lines.filter(l => l.trim()).map(l => l.match(/^\s*/)![0].length));
+    return lines.map(line => line.trim() ? indent + line.slice(common) : '');
+}
+
+function normalize(element: string): string {
+    return element.trim().split('\n').map(l => l.trim()).join('\n');
+}
+
+function escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
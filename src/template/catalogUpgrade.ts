@@ -0,0 +1,214 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { VersionCatalog, CatalogSection, TomlValue } from './versionCatalog.js';
+import { VersionResolver } from '../utils/versionResolver.js';
+import { compareVersions } from '../utils/versionRange.js';
+import { getWrapperPropertiesPath, parseWrapperVersion, updateWrapperProperties, resolveWrapperJar, distributionChecksum, installWrapperJar } from '../gradle/setupGradle.js';
+import type { FileChange } from './addonManager.js';
+
+export interface CatalogUpgrade {
+    // `[versions]` key, alias of a library or plugin with an inline version, or `gradle` for the wrapper
+    key: string;
+    section: CatalogSection | 'wrapper';
+    current: string;
+    latest: string;
+    // Coordinates the latest version was resolved from
+    artifact: string;
+    // Applied together with this one: KSP and other Kotlin plugins with Kotlin, the wrapper with AGP
+    coupled: CatalogUpgrade[];
+    // Why the upgrade can't be applied yet
+    heldBack?: string;
+}
+
+// A catalog version and the coordinates that use it
+interface UpgradeTarget {
+    key: string;
+    section: CatalogSection;
+    current: string;
+    artifact?: string;
+    pluginIds: string[];
+}
+
+// Plugins resolved through their implementation artifact instead of the plugin marker
+const PLUGIN_ARTIFACTS: [RegExp, string][] = [
+    [/^com\.android\./, 'com.android.tools.build:gradle'],
+    [/^org\.jetbrains\.kotlin\./, 'org.jetbrains.kotlin:kotlin-gradle-plugin']
+];
+
+const KSP_PLUGIN = 'com.google.devtools.ksp';
+
+// Minimum Gradle version for each AGP release line, newest first; null: the newest Gradle
+const AGP_MIN_GRADLE: [string, string | null][] = [
+    ['8.14', null], ['8.11', '8.13'], ['8.9', '8.11.1'], ['8.8', '8.10.2'], ['8.7', '8.9'], ['8.5', '8.7'],
+    ['8.4', '8.6'], ['8.3', '8.4'], ['8.2', '8.2'], ['8.0', '8.0']
+];
+
+/**
+ * Compares every versioned library and plugin in the project's catalog with the newest
+ * release on Google Maven / Maven Central (stable only, unless the current version is a
+ * pre-release). Kotlin carries KSP and Kotlin plugins on other version keys along, AGP
+ * the Gradle wrapper when it needs a newer one.
+ */
+export async function findUpgrades(projectPath: string): Promise<CatalogUpgrade[]> {
+    const catalog = await readCatalog(projectPath);
+    const targets = collectTargets(catalog);
+
+    const usesPlugin = (target: UpgradeTarget, pattern: RegExp) => target.pluginIds.some(id => pattern.test(id));
+    const kotlinTargets = targets.filter(t => usesPlugin(t, /^org\.jetbrains\.kotlin\./));
+    const kotlin = kotlinTargets.find(t => t.key === 'kotlin') ?? kotlinTargets[0];
+    const ksp = targets.find(t => t.pluginIds.includes(KSP_PLUGIN));
+    const agp = targets.find(t => usesPlugin(t, /^com\.android\./));
+
+    const upgrades: CatalogUpgrade[] = [];
+    await Promise.all(targets.filter(t => t !== ksp && !(kotlinTargets.includes(t) && t !== kotlin)).map(async target => {
+        const latest = await resolveLatest(target);
+        if (latest) upgrades.push(toUpgrade(target, latest));
+    }));
+
+    const kotlinUpgrade = upgrades.find(u => kotlin && u.key === kotlin.key && u.section === kotlin.section);
+    if (kotlinUpgrade) {
+        for (const other of kotlinTargets.filter(t => t !== kotlin && compareVersions(kotlinUpgrade.latest, t.current) > 0)) {
+            kotlinUpgrade.coupled.push(toUpgrade(other, kotlinUpgrade.latest));
+        }
+        if (ksp) {
+            // Each KSP release is built for exactly one Kotlin version
+            const kspLatest = await VersionResolver.getLatestKspVersion(kotlinUpgrade.latest);
+            if (kspLatest) {
+                kotlinUpgrade.coupled.push(toUpgrade(ksp, kspLatest));
+            } else {
+                kotlinUpgrade.heldBack = `no KSP release for Kotlin ${kotlinUpgrade.latest} yet`;
+            }
+        }
+    }
+    if (ksp && kotlin) {
+        const kspLatest = await VersionResolver.getLatestKspVersion(kotlin.current);
+        if (kspLatest && compareVersions(kspLatest, ksp.current) > 0) upgrades.push(toUpgrade(ksp, kspLatest));
+    }
+
+    const agpUpgrade = upgrades.find(u => agp && u.key === agp.key && u.section === agp.section);
+    if (agpUpgrade) {
+        const wrapper = await wrapperUpgrade(projectPath, agpUpgrade.latest);
+        if (wrapper) agpUpgrade.coupled.push(wrapper);
+    }
+
+    return upgrades.sort((a, b) => a.key.localeCompare(b.key));
+}
+
+/** Writes the chosen upgrades (and the ones coupled to them) to the catalog and the Gradle wrapper. */
+export async function applyUpgrades(projectPath: string, upgrades: CatalogUpgrade[], options: { dryRun?: boolean; offline?: boolean } = {}): Promise<FileChange[]> {
+    const tomlPath = path.join(projectPath, 'gradle', 'libs.versions.toml');
+    const tomlOriginal = await fs.readFile(tomlPath, 'utf-8');
+    const catalog = VersionCatalog.parse(tomlOriginal);
+
+    const propertiesPath = getWrapperPropertiesPath(projectPath);
+    const propertiesOriginal = fs.existsSync(propertiesPath) ? await fs.readFile(propertiesPath, 'utf-8') : null;
+    let properties = propertiesOriginal;
+
+    // Coupled versions go last so they win over a standalone upgrade of the same entry (KSP)
+    const all = [...upgrades, ...upgrades.flatMap(u => u.coupled)];
+    for (const upgrade of all) {
+        if (upgrade.section !== 'wrapper') catalog.setVersion(upgrade.section, upgrade.key, upgrade.latest);
+    }
+
+    // The wrapper jar and distributionSha256Sum follow the version. Both are fetched before
+    // anything is written, so a failed download leaves the catalog on its old AGP as well
+    const wrapper = all.filter(u => u.section === 'wrapper').pop();
+    let wrapperJar: string | null = null;
+    if (wrapper && properties !== null) {
+        if (!options.dryRun) wrapperJar = await resolveWrapperJar(wrapper.latest, options.offline);
+        properties = updateWrapperProperties(properties, wrapper.latest, await distributionChecksum(wrapper.latest, options.offline));
+    }
+
+    const changes: FileChange[] = [
+        { path: tomlPath, original: tomlOriginal, content: catalog.toString() },
+        { path: propertiesPath, original: propertiesOriginal, content: properties }
+    ].filter(change => change.original !== change.content);
+
+    if (!options.dryRun) {
+        for (const change of changes) await fs.writeFile(change.path, change.content!);
+        if (wrapperJar) await installWrapperJar(projectPath, wrapperJar);
+    }
+    return changes;
+}
+
+async function readCatalog(projectPath: string): Promise<VersionCatalog> {
+    const tomlPath = path.join(projectPath, 'gradle', 'libs.versions.toml');
+    if (!fs.existsSync(tomlPath)) throw new Error('No gradle/libs.versions.toml found in this project.');
+    return VersionCatalog.parse(await fs.readFile(tomlPath, 'utf-8'));
+}
+
+function collectTargets(catalog: VersionCatalog): UpgradeTarget[] {
+    const targets = new Map<string, UpgradeTarget>();
+    const target = (section: CatalogSection, key: string): UpgradeTarget | undefined => {
+        const id = `${section}.${key}`;
+        const current = catalog.getInlineVersion(section, key);
+        if (!targets.has(id) && current) targets.set(id, { key, section, current, pluginIds: [] });
+        return targets.get(id);
+    };
+
+    for (const alias of catalog.keys('libraries')) {
+        const value = catalog.get('libraries', alias)!;
+        const coordinates = libraryCoordinates(value);
+        const ref = versionRef(value);
+        const owner = ref ? target('versions', ref) : target('libraries', alias);
+        if (owner && coordinates) owner.artifact ??= coordinates;
+    }
+
+    for (const alias of catalog.keys('plugins')) {
+        const value = catalog.get('plugins', alias)!;
+        const id = typeof value === 'string' ? value.split(':')[0] : isTable(value) && typeof value.id === 'string' ? value.id : undefined;
+        const ref = versionRef(value);
+        const owner = ref ? target('versions', ref) : target('plugins', alias);
+        if (!owner || !id) continue;
+        owner.pluginIds.push(id);
+        // An implementation artifact beats a library of the same version key (kotlin-test for `kotlin`)
+        const artifact = PLUGIN_ARTIFACTS.find(([pattern]) => pattern.test(id))?.[1];
+        if (artifact) owner.artifact = artifact;
+    }
+
+    for (const item of targets.values()) {
+        if (!item.artifact && item.pluginIds.length > 0) {
+            item.artifact = `${item.pluginIds[0]}:${item.pluginIds[0]}.gradle.plugin`;
+        }
+    }
+    return [...targets.values()].filter(item => item.artifact);
+}
+
+async function resolveLatest(target: UpgradeTarget): Promise<string | null> {
+    const [group, name] = target.artifact!.split(':');
+    const latest = await VersionResolver.getLatestVersion({ group, name, stableOnly: VersionResolver.isStable(target.current) });
+    return latest && compareVersions(latest, target.current) > 0 ? latest : null;
+}
+
+async function wrapperUpgrade(projectPath: string, agpVersion: string): Promise<CatalogUpgrade | null> {
+    const propertiesPath = getWrapperPropertiesPath(projectPath);
+    const current = fs.existsSync(propertiesPath) ? parseWrapperVersion(await fs.readFile(propertiesPath, 'utf-8')) : null;
+    if (!current) return null;
+
+    const row = AGP_MIN_GRADLE.find(([agp]) => compareVersions(agpVersion, agp) >= 0);
+    if (!row) return null;
+    const needed = row[1] ?? await VersionResolver.getLatestGradleVersion();
+    if (!needed || compareVersions(needed, current) <= 0) return null;
+
+    return { key: 'gradle', section: 'wrapper', current, latest: needed, artifact: 'gradle-wrapper.properties', coupled: [] };
+}
+
+function toUpgrade(target: UpgradeTarget, latest: string): CatalogUpgrade {
+    return { key: target.key, section: target.section, current: target.current, latest, artifact: target.artifact!, coupled: [] };
+}
+
+function libraryCoordinates(value: TomlValue): string | undefined {
+    if (typeof value === 'string') return value.split(':').slice(0, 2).join(':');
+    if (!isTable(value)) return undefined;
+    if (typeof value.module === 'string') return value.module;
+    if (typeof value.group === 'string' && typeof value.name === 'string') return `${value.group}:${value.name}`;
+    return undefined;
+}
+
+function versionRef(value: TomlValue): string | undefined {
+    return isTable(value) && typeof value['version.ref'] === 'string' ? value['version.ref'] : undefined;
+}
+
+function isTable(value: TomlValue): value is { [key: string]: TomlValue } {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,97 @@
+import { compareVersions, satisfiesRange } from '../utils/versionRange.js';
+import type { AddonRecipe, VersionRequirement } from './addonManager.js';
+
+// What a project is built with, as far as recipe requirements are concerned
+export interface ProjectVersions {
+    kotlin?: string;
+    agp?: string;
+    minSdk?: number;
+    // `[versions]` entries of libs.versions.toml
+    catalog: Record<string, string>;
+}
+
+/** Requirements the project does not meet, each as `Kotlin >=2.1.0 (project has 2.0.21)`. */
+export function unmetRequirements(requirement: VersionRequirement, project: ProjectVersions): string[] {
+    const unmet: string[] = [];
+    const check = (label: string, range: string | undefined, actual: string | undefined) => {
+        // Nothing to compare against (e.g. a catalog without a `kotlin` entry): assume it fits
+        if (!range || actual === undefined) return;
+        if (!satisfiesRange(actual, range)) unmet.push(`${label} ${range} (project has ${actual})`);
+    };
+
+    check('Kotlin', requirement.kotlin, project.kotlin);
+    check('AGP', requirement.agp, project.agp);
+    if (requirement.minSdk !== undefined && project.minSdk !== undefined && project.minSdk < requirement.minSdk) {
+        unmet.push(`minSdk ${requirement.minSdk} or higher (project has ${project.minSdk})`);
+    }
+    for (const [key, range] of Object.entries(requirement.versions ?? {})) {
+        check(`"${key}"`, range, project.catalog[key]);
+    }
+    return unmet;
+}
+
+/**
+ * Picks the version of each `{{X_VERSION}}` placeholder a recipe installs: the one already
+ * pinned in the catalog, else the resolved one, else the newest known version whose
+ * requirements the project meets. Throws with an explanation when none fits.
+ */
+export function selectRecipeVersions(recipe: AddonRecipe, project: ProjectVersions, resolved: Record<string, string>): Record<string, string> {
+    const requirements = recipe.requires ? unmetRequirements(recipe.requires, project) : [];
+    if (requirements.length > 0) {
+        throw new Error(`Addon "${recipe.name}" needs ${requirements.join(', ')}.`);
+    }
+
+    const placeholders = new Set([
+        ...[...JSON.stringify(recipe.steps).matchAll(/{{(\w+_VERSION)}}/g)].map(match => match[1]),
+        ...Object.keys(recipe.versions ?? {})
+    ]);
+
+    const selected: Record<string, string> = {};
+    for (const placeholder of placeholders) {
+        const rules = recipe.versions?.[placeholder] ?? [];
+        const unmetFor = (version: string) => rules
+            .filter(rule => satisfiesRange(version, rule.range))
+            .flatMap(rule => unmetRequirements(rule, project));
+
+        // The catalog keeps an existing `[versions]` entry, so that is what the recipe ends up using
+        const versionKey = recipe.steps.find(step => step.type === 'toml_version' && step.value === `{{${placeholder}}}`)?.key;
+        const pinned = versionKey ? project.catalog[versionKey] : undefined;
+        if (pinned) {
+            const unmet = unmetFor(pinned);
+            if (unmet.length > 0) {
+                throw new Error(`Addon "${recipe.name}": libs.versions.toml pins ${versionKey} = "${pinned}", which needs ${unmet.join(', ')}. Change or remove that entry and try again.`);
+            }
+            selected[placeholder] = pinned;
+            continue;
+        }
+
+        const candidate = resolved[placeholder] ?? resolved[`{{${placeholder}}}`];
+        if (candidate && unmetFor(candidate).length === 0) {
+            selected[placeholder] = candidate;
+            continue;
+        }
+
+        const known = [...rules].sort((a, b) => compareVersions(b.latest, a.latest));
+        const fallback = known.find(rule => unmetRequirements(rule, project).length === 0);
+        if (fallback) {
+            selected[placeholder] = fallback.latest;
+            continue;
+        }
+
+        const reasons = [...new Set([
+            ...(candidate ? [`${candidate} needs ${unmetFor(candidate).join(', ')}`] : []),
+            ...known.map(rule => `${rule.latest} needs ${unmetRequirements(rule, project).join(', ')}`)
+        ])];
+        throw new Error(reasons.length > 0
+            ? `Addon "${recipe.name}": no ${placeholder} is compatible with this project:\n${reasons.map(reason => `  - ${reason}`).join('\n')}`
+            : `Addon "${recipe.name}": no ${placeholder} is known; run online to resolve it.`);
+    }
+    return selected;
+}
+
+/** A short note for versions that differ from the resolved ones, e.g. `KSP_VERSION 2.0.21-1.0.28`. */
+export function describeFallbacks(selected: Record<string, string>, resolved: Record<string, string>): string[] {
+    return Object.entries(selected)
+        .filter(([placeholder, version]) => (resolved[placeholder] ?? resolved[`{{${placeholder}}}`]) !== version)
+        .map(([placeholder, version]) => `${placeholder} ${version}`);
+}
@@ -0,0 +1,92 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { GradleBuildFile } from './gradleBuildFile.js';
+import { VersionCatalog } from './versionCatalog.js';
+import { patchFile } from './templateFiles.js';
+
+export const BUILD_LOGIC_DIR = 'build-logic';
+
+const CATALOG_LIBRARIES: Record<string, string> = {
+    'android-gradlePlugin': '{ group = "com.android.tools.build", name = "gradle", version.ref = "agp" }',
+    'kotlin-gradlePlugin': '{ group = "org.jetbrains.kotlin", name = "kotlin-gradle-plugin", version.ref = "kotlin" }',
+    'compose-gradlePlugin': '{ group = "org.jetbrains.kotlin", name = "compose-compiler-gradle-plugin", version.ref = "kotlin" }'
+};
+
+// Convention plugins come from the included build, so they carry no version
+const CATALOG_PLUGINS: Record<string, string> = {
+    'jetbrains-kotlin-jvm': '{ id = "org.jetbrains.kotlin.jvm", version.ref = "kotlin" }',
+    'droid-android-application': '{ id = "droid.android.application" }',
+    'droid-android-library': '{ id = "droid.android.library" }',
+    'droid-android-compose': '{ id = "droid.android.compose" }',
+    'droid-jvm-library': '{ id = "droid.jvm.library" }'
+};
+
+// Module plugins and their convention replacement (null: applied by the convention plugin)
+const PLUGIN_REPLACEMENTS: [string, string | null][] = [
+    ['alias(libs.plugins.android.application)', 'alias(libs.plugins.droid.android.application)'],
+    ['alias(libs.plugins.android.library)', 'alias(libs.plugins.droid.android.library)'],
+    ['alias(libs.plugins.jetbrains.kotlin.android)', null],
+    ['alias(libs.plugins.kotlin.compose)', 'alias(libs.plugins.droid.android.compose)']
+];
+
+// `android {}` settings owned by the convention plugins
+const CONVENTION_PROPERTIES = ['compileSdk', 'defaultConfig.minSdk', 'defaultConfig.targetSdk', 'buildFeatures.compose'];
+const CONVENTION_BLOCKS = ['compileOptions', 'kotlinOptions', 'sourceSets'];
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+export function usesConventionPlugins(projectPath: string): boolean {
+    return fs.existsSync(path.join(projectPath, BUILD_LOGIC_DIR, 'settings.gradle.kts'));
+}
+
+/**
+ * Generates the `build-logic` included build, registers its plugins in the catalog
+ * and reduces the given modules' build files to applying them.
+ */
+export async function setupConventionPlugins(projectPath: string, patches: Record<string, string>, moduleDirs: string[]) {
+    const buildLogicDir = path.join(projectPath, BUILD_LOGIC_DIR);
+    await fs.copy(path.resolve(__dirname, '../../templates', BUILD_LOGIC_DIR), buildLogicDir);
+    await patchFile(path.join(buildLogicDir, 'convention', 'src', 'main', 'kotlin', 'ProjectConfig.kt'), patches);
+
+    const tomlPath = path.join(projectPath, 'gradle', 'libs.versions.toml');
+    const catalog = VersionCatalog.parse(await fs.readFile(tomlPath, 'utf-8'));
+    for (const [key, value] of Object.entries(CATALOG_LIBRARIES)) catalog.set('libraries', key, value);
+    for (const [key, value] of Object.entries(CATALOG_PLUGINS)) catalog.set('plugins', key, value);
+    await fs.writeFile(tomlPath, catalog.toString());
+
+    await editGradleFile(path.join(projectPath, 'settings.gradle.kts'), settings =>
+        settings.addStatement(['pluginManagement'], `includeBuild("${BUILD_LOGIC_DIR}")`, 'start'));
+
+    // The Kotlin JVM plugin must be on the root classpath for droid.jvm.library
+    await editGradleFile(path.join(projectPath, 'build.gradle.kts'), root =>
+        root.addPlugin('alias(libs.plugins.jetbrains.kotlin.jvm)', false));
+
+    for (const dir of moduleDirs) {
+        await applyConventionPlugins(path.join(projectPath, dir, 'build.gradle.kts'));
+    }
+}
+
+/** Swaps a module's Android/Kotlin plugins for convention plugins and drops the settings they own. */
+export async function applyConventionPlugins(buildFile: string) {
+    if (!fs.existsSync(buildFile)) return;
+
+    await editGradleFile(buildFile, gradle => {
+        for (const [plugin, replacement] of PLUGIN_REPLACEMENTS) {
+            if (replacement) {
+                gradle.replacePlugin(plugin, replacement);
+            } else {
+                gradle.removePlugin(plugin);
+            }
+        }
+        for (const property of CONVENTION_PROPERTIES) gradle.unsetAndroidProperty(property);
+        for (const block of CONVENTION_BLOCKS) gradle.removeBlock(['android', block]);
+    });
+}
+
+async function editGradleFile(filePath: string, edit: (gradle: GradleBuildFile) => unknown) {
+    const gradle = new GradleBuildFile(await fs.readFile(filePath, 'utf-8'));
+    edit(gradle);
+    await fs.writeFile(filePath, gradle.toString());
+}
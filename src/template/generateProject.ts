@@ -1,27 +1,62 @@
 import fs from 'fs-extra';
 import path from 'path';
+import os from 'os';
 import { fileURLToPath } from 'url';
 import { execa } from 'execa';
-import { CONSTANTS } from '../utils/constants.js';
 import { logger } from '../utils/logger.js';
 import { AddonManager } from './addonManager.js';
 import { VersionResolver } from '../utils/versionResolver.js';
+import { defaultPackageName, validatePackageName } from '../utils/packageName.js';
+import { writeLockfile } from './lockfile.js';
+import { patchFile, patchTemplateFiles, relocatePackage } from './templateFiles.js';
+import { createModule, parseModulePath, modulePackageName, MODULAR_LAYOUT } from './modules.js';
+import { GradleBuildFile } from './gradleBuildFile.js';
+import { setupConventionPlugins } from './conventionPlugins.js';
+import { ExternalTemplate, TEMPLATE_MANIFEST_NAME } from './templateSource.js';
 
 interface ProjectOptions {
   projectPath: string;
   projectName: string;
-  uiType: 'compose' | 'views' | 'mobile-compose-navigation' | 'tv-compose' | 'compose-library';
+  uiType: 'compose' | 'views' | 'mobile-compose-navigation' | 'tv-compose' | 'wear-compose' | 'compose-library' | 'kmp';
   sdkPath: string;
   libraries?: string[];
+  packageName?: string;
+  minSdk?: string;
+  targetSdk?: string;
+  git?: boolean;
+  // Adds :core:data, :core:ui and :feature:home next to the app module
+  modular?: boolean;
+  // Generates a build-logic included build with convention plugins
+  conventionPlugins?: boolean;
+  offline?: boolean;
+  // JDK Gradle should run on when it isn't the one on PATH / JAVA_HOME
+  javaHome?: string | null;
+  lockedVersions?: Record<string, string>;
+  // A user template (`--template ./path`, tarball or git) used instead of templates/<uiType>
+  template?: ExternalTemplate;
+  // Values for the user template's placeholders, keyed without braces
+  templateVariables?: Record<string, string>;
+  // Install remote addon recipes without the trust prompt
+  trustRecipes?: boolean;
 }
 
+// Templates that need a higher minSdk than the default (Wear OS 3 starts at API 30)
+const TEMPLATE_MIN_SDK: Record<string, string> = {
+  'wear-compose': '30'
+};
+
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
 export async function generateProject(options: ProjectOptions) {
-  const { projectPath, projectName, uiType, sdkPath, libraries = [] } = options;
-  const isLibrary = uiType === 'compose-library';
-  const moduleName = isLibrary ? 'library' : 'app';
+  const { projectPath, projectName, uiType, sdkPath, libraries = [], git = true, offline = false } = options;
+  const external = options.template;
+  const isLibrary = !external && uiType === 'compose-library';
+  const moduleName = external?.manifest.module ?? (isLibrary ? 'library' : 'app');
+
+  if (options.modular && isLibrary) {
+    throw new Error('The modular layout needs an app template, not compose-library');
+  }
   
   await fs.ensureDir(projectPath);
 
@@ -48,36 +83,45 @@ export async function generateProject(options: ProjectOptions) {
     'HILT_VERSION': { group: 'com.google.dagger', name: 'hilt-android' },
     'ROOM_VERSION': { group: 'androidx.room', name: 'room-runtime' },
     'DATASTORE_VERSION': { group: 'androidx.datastore', name: 'datastore-preferences' },
+    'COROUTINES_VERSION': { group: 'org.jetbrains.kotlinx', name: 'kotlinx-coroutines-core' },
+    'WEAR_COMPOSE_VERSION': { group: 'androidx.wear.compose', name: 'compose-material' },
+    'HOROLOGIST_VERSION': { group: 'com.google.android.horologist', name: 'horologist-compose-layout' },
+    'GLANCE_VERSION': { group: 'androidx.glance', name: 'glance-appwidget' },
+    'SERIALIZATION_VERSION': { group: 'org.jetbrains.kotlinx', name: 'kotlinx-serialization-json' },
   };
 
-  const resolvedMaven = await VersionResolver.resolveAll(artifacts);
-  const remoteDefaults = await VersionResolver.getRemoteDefaults();
-  
+  const resolvedVersions = await VersionResolver.resolveVersions(artifacts, { offline, locked: options.lockedVersions });
+
   const versionPatches: Record<string, string> = {};
-  const allKeys = [...Object.keys(artifacts), 'COMPILE_SDK', 'TARGET_SDK', 'MIN_SDK', 'GRADLE_VERSION'];
-  
-  // Critical build infrastructure keys - ALWAYS prefer GitHub (vetted) or Local Fallback
-  const buildInfraKeys = ['AGP_VERSION', 'KOTLIN_VERSION', 'GRADLE_VERSION', 'COMPILE_SDK', 'TARGET_SDK', 'MIN_SDK', 
-                         'CORE_KTX_VERSION', 'ACTIVITY_COMPOSE_VERSION', 'APPCOMPAT_VERSION', 'MATERIAL_VERSION', 
-                         'NAVIGATION_COMPOSE_VERSION', 'LIFECYCLE_RUNTIME_KTX_VERSION'];
-
-  for (const key of allKeys) {
-      const isBuildInfra = buildInfraKeys.includes(key);
-      const value = isBuildInfra 
-          ? (remoteDefaults[key] || (CONSTANTS.DEFAULTS as any)[key]) // Ignore Maven for infra
-          : (resolvedMaven[key] || remoteDefaults[key] || (CONSTANTS.DEFAULTS as any)[key]);
-          
+  for (const [key, value] of Object.entries(resolvedVersions)) {
       versionPatches[`{{${key}}}`] = value;
   }
 
-  // Resolve KSP separately as it depends on Kotlin version
-  const kotlinVersion = versionPatches['{{KOTLIN_VERSION}}'];
-  const kspVersion = await VersionResolver.getLatestKspVersion(kotlinVersion) || `${kotlinVersion}-1.0.29`;
-  versionPatches['{{KSP_VERSION}}'] = kspVersion;
+  if (TEMPLATE_MIN_SDK[uiType]) versionPatches['{{MIN_SDK}}'] = TEMPLATE_MIN_SDK[uiType];
+  if (options.minSdk) versionPatches['{{MIN_SDK}}'] = options.minSdk;
+  if (options.targetSdk) versionPatches['{{TARGET_SDK}}'] = options.targetSdk;
+
+  const packageName = options.packageName || defaultPackageName(projectName);
+  const templatePatches: Record<string, string> = {
+    '{{PROJECT_NAME}}': projectName,
+    '{{PACKAGE_NAME}}': packageName,
+    '{{APPLICATION_ID}}': packageName,
+    ...versionPatches
+  };
+  for (const [key, value] of Object.entries(options.templateVariables ?? {})) {
+    templatePatches[`{{${key}}}`] = value;
+  }
+
+  if (external) {
+    const missing = external.manifest.placeholders.filter(name => templatePatches[`{{${name}}}`] === undefined);
+    if (missing.length > 0) {
+      throw new Error(`Template ${external.source} needs values for: ${missing.join(', ')}`);
+    }
+  }
 
   const templateRoot = path.resolve(__dirname, '../../templates');
   const baseTemplate = path.join(templateRoot, 'base');
-  const uiTemplate = path.join(templateRoot, uiType);
+  const uiTemplate = external?.dir ?? path.join(templateRoot, uiType);
 
   if (!fs.existsSync(baseTemplate)) {
     throw new Error(`Base template not found at ${baseTemplate}`);
@@ -88,6 +132,8 @@ export async function generateProject(options: ProjectOptions) {
   
   if (isLibrary) {
       await fs.remove(path.join(projectPath, 'app'));
+  } else if (moduleName !== 'app') {
+      await fs.move(path.join(projectPath, 'app'), path.join(projectPath, moduleName));
   }
 
   const gitignorePath = path.join(projectPath, '_gitignore');
@@ -96,15 +142,25 @@ export async function generateProject(options: ProjectOptions) {
   }
 
   if (fs.existsSync(uiTemplate)) {
-    logger.info(`Applying ${uiType} template...`);
-    await fs.copy(uiTemplate, projectPath, { overwrite: true });
+    logger.info(`Applying ${external ? external.manifest.name ?? external.source : uiType} template...`);
+    await fs.copy(uiTemplate, projectPath, {
+      overwrite: true,
+      filter: src => ![TEMPLATE_MANIFEST_NAME, '.git'].includes(path.relative(uiTemplate, src))
+    });
   } else {
       throw new Error(`UI template not found: ${uiType} at ${uiTemplate}`);
   }
 
   logger.info(`Patching configuration...`);
-  const safeProjectName = projectName.toLowerCase().replace(/[^a-z0-9]/g, '').replace(/^[0-9]+/, '');
-  const packageName = `com.example.${safeProjectName || 'androidapp'}`;
+  const validPackage = validatePackageName(packageName);
+  if (validPackage !== true) {
+    throw new Error(`Invalid package name "${packageName}": ${validPackage}`);
+  }
+
+  // User templates may use placeholders in any file, not just the known ones below
+  if (external) {
+    await patchTemplateFiles(uiTemplate, projectPath, templatePatches);
+  }
 
   await patchFile(path.join(projectPath, 'settings.gradle.kts'), {
     '{{PROJECT_NAME}}': projectName,
@@ -127,27 +183,73 @@ export async function generateProject(options: ProjectOptions) {
       });
   }
 
-  const srcBase = path.join(projectPath, moduleName, 'src/main/kotlin');
-  const oldPackagePath = path.join(srcBase, 'com/example/template');
-  const newPackagePath = path.join(srcBase, ...packageName.split('.'));
+  await relocatePackage(path.join(projectPath, moduleName), packageName, projectName);
+
+  // Extra modules shipped by the template, e.g. `shared` in kmp
+  for (const dir of await listTemplateModules(uiTemplate, moduleName)) {
+    const modulePackage = modulePackageName(packageName, parseModulePath(dir));
+    await patchFile(path.join(projectPath, dir, 'build.gradle.kts'), {
+      '{{APPLICATION_ID}}': modulePackage,
+      ...versionPatches
+    });
+    await relocatePackage(path.join(projectPath, dir), modulePackage, projectName);
+
+    const settingsPath = path.join(projectPath, 'settings.gradle.kts');
+    const settings = new GradleBuildFile(await fs.readFile(settingsPath, 'utf-8'));
+    settings.addInclude(`:${dir}`);
+    await fs.writeFile(settingsPath, settings.toString());
+  }
+
+  if (options.modular) {
+    logger.info('Creating modules...');
+    for (const layoutModule of MODULAR_LAYOUT) {
+      await createModule({
+        projectPath,
+        module: layoutModule.path,
+        type: layoutModule.type,
+        basePackage: packageName,
+        projectName,
+        patches: versionPatches,
+        consumers: [`:${moduleName}`],
+        dependencies: layoutModule.dependencies
+      });
+    }
+  }
 
-  if (fs.existsSync(oldPackagePath)) {
-    await fs.move(oldPackagePath, newPackagePath, { overwrite: true });
-    await patchSourceFiles(newPackagePath, packageName, projectName);
-    await cleanEmptyDirs(oldPackagePath);
+  if (options.conventionPlugins) {
+    logger.info('Generating build-logic convention plugins...');
+    const moduleDirs = [moduleName, ...(options.modular ? MODULAR_LAYOUT.map(m => parseModulePath(m.path).dir) : [])];
+    await setupConventionPlugins(projectPath, versionPatches, moduleDirs);
   }
 
-  // Use AddonManager for libraries
+  // Use AddonManager for libraries; one that fails is rolled back and the rest still go in
+  const installedLibraries: string[] = [];
   if (libraries.length > 0) {
-      const addonManager = new AddonManager(projectPath, moduleName, packageName, versionPatches);
+      const addonManager = new AddonManager(projectPath, moduleName, packageName, versionPatches, { trust: options.trustRecipes, offline: options.offline });
       for (const lib of libraries) {
-          await addonManager.install(lib);
+          try {
+              await addonManager.install(lib);
+              installedLibraries.push(lib);
+          } catch (e: any) {
+              logger.warn(`Skipped ${lib}: ${e.message}`);
+              logger.warn(`Fix the cause and add it later with: npx create-droid add ${lib}`);
+          }
       }
   }
 
   const localProperties = `sdk.dir=${sdkPath}\n`;
   await fs.writeFile(path.join(projectPath, 'local.properties'), localProperties);
 
+  if (options.javaHome) {
+    await useJdkForGradle(options.javaHome);
+  }
+
+  await writeLockfile(projectPath, {
+    template: external?.source ?? uiType,
+    addons: installedLibraries,
+    versions: Object.fromEntries(Object.entries(versionPatches).map(([key, value]) => [key.slice(2, -2), value]))
+  });
+
   logger.info('Adding npm convenience scripts...');
   const packageJson = {
     name: projectName.toLowerCase().replace(/[^a-z0-9-]/g, '-'),
@@ -178,6 +280,11 @@ export async function generateProject(options: ProjectOptions) {
   };
   await fs.writeJSON(path.join(projectPath, 'package.json'), packageJson, { spaces: 2 });
 
+  if (!git) {
+    logger.info('Skipping git initialization.');
+    return;
+  }
+
   try {
     logger.info('Initializing git repository...');
     await execa('git', ['init'], { cwd: projectPath });
@@ -189,43 +296,30 @@ export async function generateProject(options: ProjectOptions) {
   }
 }
 
-async function patchFile(filePath: string, replacements: Record<string, string>) {
-  if (!fs.existsSync(filePath)) return;
-  let content = await fs.readFile(filePath, 'utf-8');
-  let modified = false;
-  for (const [key, value] of Object.entries(replacements)) {
-    if (content.includes(key)) {
-        content = content.replaceAll(key, value);
-        modified = true;
-    }
-  }
-  if (modified) await fs.writeFile(filePath, content);
+async function listTemplateModules(templateDir: string, mainModule: string): Promise<string[]> {
+  const entries = await fs.readdir(templateDir, { withFileTypes: true });
+  return entries
+    .filter(entry => entry.isDirectory() && entry.name !== mainModule)
+    .filter(entry => fs.existsSync(path.join(templateDir, entry.name, 'build.gradle.kts')))
+    .map(entry => entry.name);
 }
 
-async function patchSourceFiles(dir: string, packageName: string, projectName: string) {
-    const files = await fs.readdir(dir);
-    for (const file of files) {
-        const fullPath = path.join(dir, file);
-        if ((await fs.stat(fullPath)).isDirectory()) {
-            await patchSourceFiles(fullPath, packageName, projectName);
-        } else if (file.endsWith('.kt') || file.endsWith('.java') || file.endsWith('.xml')) {
-            await patchFile(fullPath, {
-                '{{PACKAGE_NAME}}': packageName,
-                '{{PROJECT_NAME}}': projectName,
-                '{{APPLICATION_ID}}': packageName
-            });
-        }
-    }
-}
-
-async function cleanEmptyDirs(dir: string) {
-    let currentDir = dir;
-    while (currentDir && currentDir !== path.dirname(currentDir)) {
-        try {
-            if (fs.existsSync(currentDir) && (await fs.readdir(currentDir)).length === 0) {
-                await fs.remove(currentDir);
-                currentDir = path.dirname(currentDir);
-            } else break;
-        } catch (e) { break; }
-    }
+/**
+ * Points Gradle at a JDK that isn't on PATH / JAVA_HOME. The path only exists on this machine,
+ * so it goes into the Gradle user home's gradle.properties rather than the project's committed one.
+ */
+async function useJdkForGradle(javaHome: string) {
+  const gradleUserHome = process.env.GRADLE_USER_HOME ?? path.join(os.homedir(), '.gradle');
+  const gradlePropertiesPath = path.join(gradleUserHome, 'gradle.properties');
+  const content = fs.existsSync(gradlePropertiesPath) ? await fs.readFile(gradlePropertiesPath, 'utf-8') : '';
+  if (/^\s*org\.gradle\.java\.home\s*[=:]/m.test(content)) {
+    logger.warn(`${gradlePropertiesPath} already sets org.gradle.java.home; leaving it as is.`);
+    logger.info(`Gradle needs JDK ${javaHome} or another supported JDK to build this project.`);
+    return;
+  }
+  const separator = content && !content.endsWith('\n') ? '\n' : '';
+  const entry = `# Set by create-droid: the JDK Gradle uses on this machine\norg.gradle.java.home=${javaHome.replace(/\\/g, '\\\\')}\n`;
+  await fs.ensureDir(gradleUserHome);
+  await fs.writeFile(gradlePropertiesPath, content + separator + entry);
+  logger.info(`Gradle will use JDK ${javaHome} (set in ${gradlePropertiesPath}).`);
 }
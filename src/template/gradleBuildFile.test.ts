@@ -0,0 +1,83 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { GradleBuildFile } from './gradleBuildFile.js';
+
+const BUILD_FILE = `plugins {
+    alias(libs.plugins.android.application)
+    // alias(libs.plugins.hilt)
+}
+
+buildscript {
+    dependencies {
+        classpath("com.example:plugin:1.0")
+    }
+}
+
+android {
+    namespace = "com.acme.app"
+    defaultConfig {
+        minSdk = 24
+        buildConfigField("String", "NOTE", "\\"targetSdk = 1\\"")
+    }
+}
+
+dependencies {
+    implementation(libs.androidx.core.ktx)
+    /* implementation(libs.retrofit) */
+}
+`;
+
+test('addPlugin and removePlugin round-trip, ignoring commented-out plugins', () => {
+    const file = new GradleBuildFile(BUILD_FILE);
+    assert.equal(file.hasPlugin('alias(libs.plugins.hilt)'), false);
+    assert.equal(file.addPlugin('alias(libs.plugins.hilt)'), 'added');
+    assert.equal(file.addPlugin('alias(libs.plugins.hilt)'), 'unchanged');
+    assert.equal(file.removePlugin('alias(libs.plugins.hilt)'), true);
+    assert.equal(file.toString(), BUILD_FILE);
+});
+
+test('addDependency is idempotent and only edits the top-level dependencies block', () => {
+    const file = new GradleBuildFile(BUILD_FILE);
+    assert.equal(file.addDependency('implementation', 'libs.retrofit'), 'added');
+    const once = file.toString();
+    assert.equal(file.addDependency('implementation', 'libs.retrofit'), 'unchanged');
+    assert.equal(file.toString(), once);
+    assert.match(once, /implementation\(libs\.androidx\.core\.ktx\)\n {4}implementation\(libs\.retrofit\)/);
+    assert.equal(file.hasDependency('classpath', '"com.example:plugin:1.0"'), false);
+
+    assert.equal(file.removeDependency('implementation', 'libs.retrofit'), true);
+    assert.equal(file.toString(), BUILD_FILE);
+});
+
+test('setAndroidProperty replaces an existing assignment instead of adding another', () => {
+    const file = new GradleBuildFile(BUILD_FILE);
+    assert.equal(file.setAndroidProperty('defaultConfig.minSdk', '26'), 'added');
+    assert.equal(file.setAndroidProperty('defaultConfig.minSdk', '26'), 'unchanged');
+    assert.equal(file.toString(), BUILD_FILE.replace('minSdk = 24', 'minSdk = 26'));
+});
+
+test('setAndroidProperty ignores assignments inside strings', () => {
+    const file = new GradleBuildFile(BUILD_FILE);
+    file.setAndroidProperty('defaultConfig.targetSdk', '35');
+    assert.match(file.toString(), /"\\"targetSdk = 1\\""\)\n {8}targetSdk = 35\n/);
+});
+
+test('setAndroidProperty and unsetAndroidProperty handle single-line blocks', () => {
+    const original = 'android {\n    defaultConfig { minSdk = 24; targetSdk = 35 }\n}\n';
+    const file = new GradleBuildFile(original);
+    assert.equal(file.setAndroidProperty('defaultConfig.minSdk', '26'), 'added');
+    assert.equal(file.setAndroidProperty('defaultConfig.minSdk', '26'), 'unchanged');
+    assert.equal(file.toString(), 'android {\n    defaultConfig { minSdk = 26; targetSdk = 35 }\n}\n');
+
+    assert.equal(file.unsetAndroidProperty('defaultConfig.minSdk'), true);
+    assert.equal(file.toString(), 'android {\n    defaultConfig { targetSdk = 35 }\n}\n');
+    assert.equal(file.setAndroidProperty('defaultConfig.targetSdk', '35'), 'unchanged');
+});
+
+test('setAndroidProperty creates nested blocks and unset removes them again', () => {
+    const file = new GradleBuildFile(BUILD_FILE);
+    assert.equal(file.setAndroidProperty('buildFeatures.buildConfig', 'true'), 'added');
+    assert.equal(file.setAndroidProperty('buildFeatures.buildConfig', 'true'), 'unchanged');
+    assert.equal(file.unsetAndroidProperty('buildFeatures.buildConfig'), true);
+    assert.equal(file.toString(), BUILD_FILE);
+});
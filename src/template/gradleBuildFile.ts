@@ -0,0 +1,460 @@
+interface Block {
+    name: string;
+    // Index of the first character of the block header
+    start: number;
+    open: number;
+    close: number;
+}
+
+interface Declaration {
+    configuration: string;
+    notation: string;
+    lineStart: number;
+    lineEnd: number;
+}
+
+const INDENT = '    ';
+
+/**
+ * Structural editor for Gradle Kotlin DSL files. Only top-level `plugins {}`,
+ * `android {}` and `dependencies {}` blocks are edited; strings and comments are
+ * never mistaken for code, so `buildscript { dependencies {` or a commented-out
+ * line cannot be patched by accident.
+ */
+export class GradleBuildFile {
+    constructor(private text: string) {}
+
+    toString(): string {
+        return this.text;
+    }
+
+    hasPlugin(alias: string): boolean {
+        const block = this.findBlock(['plugins']);
+        if (!block) return false;
+        return this.statements(block).some(line => normalize(stripApply(line)) === normalize(alias));
+    }
+
+    /** True when the Kotlin Multiplatform plugin is applied. */
+    isMultiplatform(): boolean {
+        const block = this.findBlock(['plugins']);
+        if (!block) return false;
+        return this.statements(block).some(line => /multiplatform/.test(line));
+    }
+
+    /** Adds e.g. `alias(libs.plugins.hilt)` (with `apply false` for the root build file). */
+    addPlugin(alias: string, apply = true): 'added' | 'unchanged' {
+        if (this.hasPlugin(alias)) return 'unchanged';
+
+        const statement = apply ? alias : `${alias} apply false`;
+        const block = this.findBlock(['plugins']);
+        if (!block) {
+            this.text = `plugins {\n${INDENT}${statement}\n}\n\n${this.text}`;
+            return 'added';
+        }
+        this.appendToBlock(block, statement);
+        return 'added';
+    }
+
+    removePlugin(alias: string): boolean {
+        const block = this.findBlock(['plugins']);
+        if (!block) return false;
+        return this.removeLineWhere(block, line => normalize(stripApply(line)) === normalize(alias));
+    }
+
+    /** Swaps one plugin for another in place, keeping any `apply false`. */
+    replacePlugin(alias: string, replacement: string): boolean {
+        if (this.hasPlugin(replacement)) return this.removePlugin(alias);
+
+        const block = this.findBlock(['plugins']);
+        if (!block) return false;
+        const line = this.lines(block).find(l => normalize(stripApply(l.text.trim())) === normalize(alias));
+        if (!line) return false;
+
+        const indent = line.text.match(/^[ \t]*/)![0];
+        const applySuffix = line.text.trim().match(/\s+apply\s+(false|true)\s*$/)?.[0] ?? '';
+        this.text = `${this.text.slice(0, line.lineStart)}${indent}${replacement}${applySuffix}${this.text.slice(line.lineEnd)}`;
+        return true;
+    }
+
+    hasDependency(configuration: string, notation: string): boolean {
+        return this.findDeclaration(configuration, notation) !== undefined;
+    }
+
+    /**
+     * Adds `configuration(notation)` to the top-level `dependencies {}` block, next to
+     * existing declarations of the same configuration. Idempotent by notation.
+     */
+    addDependency(configuration: string, notation: string, blockPath: string[] = ['dependencies']): 'added' | 'unchanged' {
+        if (this.findDeclaration(configuration, notation, blockPath)) return 'unchanged';
+
+        const statement = `${configuration}(${notation})`;
+        const block = this.ensureBlock(blockPath);
+        const sameConfiguration = this.declarations(block).filter(d => d.configuration === configuration);
+        const last = sameConfiguration[sameConfiguration.length - 1];
+
+        if (last) {
+            const indent = this.text.slice(last.lineStart).match(/^[ \t]*/)![0];
+            this.text = `${this.text.slice(0, last.lineEnd)}\n${indent}${statement}${this.text.slice(last.lineEnd)}`;
+        } else {
+            this.appendToBlock(block, statement);
+        }
+        return 'added';
+    }
+
+    removeDependency(configuration: string, notation: string, blockPath: string[] = ['dependencies']): boolean {
+        const declaration = this.findDeclaration(configuration, notation, blockPath);
+        if (!declaration) return false;
+        this.removeRange(declaration.lineStart, declaration.lineEnd);
+
+        // Nested blocks such as `jvmMain.dependencies {}` are dropped once empty
+        const block = this.findBlock(blockPath);
+        if (block && blockPath.length > 1 && !this.text.slice(block.open + 1, block.close).trim()) {
+            this.removeRange(block.start, block.close + 1);
+        }
+        return true;
+    }
+
+    /**
+     * Sets a property inside `android {}`, e.g. `buildFeatures.buildConfig = true`,
+     * creating intermediate blocks as needed.
+     */
+    setAndroidProperty(propertyPath: string, value: string): 'added' | 'unchanged' {
+        const segments = propertyPath.split('.');
+        const property = segments.pop()!;
+        if (!this.findBlock(['android'])) {
+            throw new Error('No top-level android {} block found');
+        }
+
+        const block = this.ensureBlock(['android', ...segments]);
+        const statement = `${property} = ${value}`;
+        const existing = this.findAssignment(block, property);
+
+        if (existing) {
+            const current = this.text.slice(existing.start, existing.end);
+            if (normalize(current) === normalize(statement)) return 'unchanged';
+            this.text = this.text.slice(0, existing.start) + statement + this.text.slice(existing.end);
+            return 'added';
+        }
+
+        this.appendToBlock(block, statement);
+        return 'added';
+    }
+
+    unsetAndroidProperty(propertyPath: string): boolean {
+        const segments = propertyPath.split('.');
+        const property = segments.pop()!;
+        const block = this.findBlock(['android', ...segments]);
+        if (!block) return false;
+
+        const existing = this.findAssignment(block, property);
+        if (!existing) return false;
+        const before = this.text.slice(existing.lineStart, existing.start);
+        const after = this.text.slice(existing.end, existing.lineEnd);
+        if (!before.trim() && !after.trim()) {
+            this.removeRange(existing.lineStart, existing.lineEnd);
+        } else {
+            // One of several statements on the line: drop it with its `;`
+            const rest = this.text.slice(existing.end).match(/^[ \t]*;?[ \t]*/)![0];
+            this.text = this.text.slice(0, existing.start) + this.text.slice(existing.end + rest.length);
+        }
+
+        // Drop nested blocks that are left empty, e.g. `buildFeatures {}`
+        for (let depth = segments.length; depth > 0; depth--) {
+            const nested = this.findBlock(['android', ...segments.slice(0, depth)]);
+            if (!nested || this.text.slice(nested.open + 1, nested.close).trim()) break;
+            this.removeRange(nested.start, nested.close + 1);
+        }
+        return true;
+    }
+
+    /** Project paths declared with `include(...)` in a settings file. */
+    includes(): string[] {
+        return this.includeLines().flatMap(line => line.paths);
+    }
+
+    addInclude(projectPath: string): 'added' | 'unchanged' {
+        const lines = this.includeLines();
+        if (lines.some(line => line.paths.includes(projectPath))) return 'unchanged';
+
+        const statement = `include("${projectPath}")`;
+        const last = lines[lines.length - 1];
+        if (last) {
+            this.text = `${this.text.slice(0, last.lineEnd)}\n${statement}${this.text.slice(last.lineEnd)}`;
+        } else {
+            this.text = `${this.text.replace(/\s*$/, '')}\n${statement}\n`;
+        }
+        return 'added';
+    }
+
+    removeInclude(projectPath: string): boolean {
+        const line = this.includeLines().find(l => l.paths.includes(projectPath));
+        if (!line) return false;
+
+        if (line.paths.length === 1) {
+            this.removeRange(line.lineStart, line.lineEnd);
+        } else {
+            const rest = line.paths.filter(p => p !== projectPath).map(p => `"${p}"`).join(', ');
+            this.text = `${this.text.slice(0, line.lineStart)}include(${rest})${this.text.slice(line.lineEnd)}`;
+        }
+        return true;
+    }
+
+    /** Adds a statement to a block (e.g. `includeBuild(...)` in `pluginManagement {}`) unless already present. */
+    addStatement(blockPath: string[], statement: string, position: 'start' | 'end' = 'end'): 'added' | 'unchanged' {
+        const existing = this.findBlock(blockPath);
+        if (existing && this.statements(existing).some(line => normalize(line) === normalize(statement))) {
+            return 'unchanged';
+        }
+
+        const block = this.ensureBlock(blockPath);
+        if (position === 'end') {
+            this.appendToBlock(block, statement);
+        } else {
+            const indent = this.blockIndent(block) + INDENT;
+            this.text = `${this.text.slice(0, block.open + 1)}\n${indent}${statement}${this.text.slice(block.open + 1)}`;
+        }
+        return 'added';
+    }
+
+    /** Removes a whole block, e.g. `['android', 'kotlinOptions']`. */
+    removeBlock(blockPath: string[]): boolean {
+        const block = this.findBlock(blockPath);
+        if (!block) return false;
+        this.removeRange(block.start, block.close + 1);
+        return true;
+    }
+
+    /** Finds a block by path, e.g. `['android', 'buildFeatures']`. */
+    findBlock(blockPath: string[]): Block | undefined {
+        let range: [number, number] = [0, this.text.length];
+        let found: Block | undefined;
+        for (const name of blockPath) {
+            found = findChildBlocks(this.text, range[0], range[1]).find(b => b.name === name);
+            if (!found) return undefined;
+            range = [found.open + 1, found.close];
+        }
+        return found;
+    }
+
+    private ensureBlock(blockPath: string[]): Block {
+        const existing = this.findBlock(blockPath);
+        if (existing) return existing;
+
+        const parentPath = blockPath.slice(0, -1);
+        const name = blockPath[blockPath.length - 1];
+
+        if (parentPath.length === 0) {
+            this.text = `${this.text.replace(/\s*$/, '')}\n\n${name} {\n}\n`;
+        } else {
+            const parent = this.ensureBlock(parentPath);
+            this.appendToBlock(parent, `${name} {\n}`);
+        }
+        return this.findBlock(blockPath)!;
+    }
+
+    private appendToBlock(block: Block, statement: string) {
+        const indent = this.blockIndent(block) + INDENT;
+        const body = this.text.slice(block.open + 1, block.close);
+        const lines = statement.split('\n').map((line, i, all) =>
+            // Closing braces of nested blocks line up with their header
+            i > 0 && i === all.length - 1 && line.trim() === '}' ? indent + line.trim() : indent + line);
+
+        // Insert after the last non-blank content, keeping the closing brace on its own line
+        const trimmedBody = body.replace(/\s*$/, '');
+        const closingIndent = this.blockIndent(block);
+        const newBody = `${trimmedBody}\n${lines.join('\n')}\n${closingIndent}`;
+        this.text = this.text.slice(0, block.open + 1) + newBody + this.text.slice(block.close);
+    }
+
+    private blockIndent(block: Block): string {
+        const lineStart = this.text.lastIndexOf('\n', block.start) + 1;
+        return this.text.slice(lineStart).match(/^[ \t]*/)![0];
+    }
+
+    private statements(block: Block): string[] {
+        const masked = maskComments(this.text);
+        return masked.slice(block.open + 1, block.close).split('\n').map(l => l.trim()).filter(Boolean);
+    }
+
+    // Lines of a block body with comments blanked out
+    private lines(block: Block): { text: string; lineStart: number; lineEnd: number }[] {
+        const masked = maskComments(this.text);
+        const result: { text: string; lineStart: number; lineEnd: number }[] = [];
+        let lineStart = block.open + 1;
+
+        while (lineStart < block.close) {
+            let lineEnd = masked.indexOf('\n', lineStart);
+            if (lineEnd === -1 || lineEnd > block.close) lineEnd = block.close;
+            result.push({ text: masked.slice(lineStart, lineEnd), lineStart, lineEnd });
+            lineStart = lineEnd + 1;
+        }
+        return result;
+    }
+
+    private declarations(block: Block): Declaration[] {
+        const result: Declaration[] = [];
+        for (const { text, lineStart, lineEnd } of this.lines(block)) {
+            const match = text.match(/^\s*([A-Za-z][A-Za-z0-9]*)\s*\((.*)\)\s*$/);
+            if (match) {
+                result.push({ configuration: match[1], notation: match[2], lineStart, lineEnd });
+            }
+        }
+        return result;
+    }
+
+    private findDeclaration(configuration: string, notation: string, blockPath: string[] = ['dependencies']): Declaration | undefined {
+        const block = this.findBlock(blockPath);
+        if (!block) return undefined;
+        return this.declarations(block).find(d => d.configuration === configuration && normalize(d.notation) === normalize(notation));
+    }
+
+    /**
+     * A direct `property = value` statement of the block: at the start of a line, or after
+     * `{` or `;` when several statements share a line (`defaultConfig { minSdk = 24 }`).
+     * `start`/`end` cover the statement without surrounding whitespace or `;`.
+     */
+    private findAssignment(block: Block, property: string): { start: number; end: number; lineStart: number; lineEnd: number } | undefined {
+        const masked = maskAll(this.text);
+        const children = findChildBlocks(this.text, block.open + 1, block.close);
+        const regex = new RegExp(`(^|[{;])[ \\t]*(${property}\\s*=)`, 'gm');
+        const body = masked.slice(0, block.close);
+        regex.lastIndex = block.open;
+
+        let match: RegExpExecArray | null;
+        while ((match = regex.exec(body))) {
+            const start = match.index + match[0].length - match[2].length;
+            // Only direct children of the block, not assignments inside nested blocks
+            if (start <= block.open || children.some(child => start > child.open && start < child.close)) continue;
+
+            let end = start;
+            while (end < block.close && masked[end] !== '\n' && masked[end] !== ';') end++;
+            while (end > start && /\s/.test(masked[end - 1])) end--;
+
+            const lineStart = this.text.lastIndexOf('\n', start - 1) + 1;
+            let lineEnd = this.text.indexOf('\n', end);
+            if (lineEnd === -1) lineEnd = this.text.length;
+            return { start, end, lineStart, lineEnd };
+        }
+        return undefined;
+    }
+
+    // Top-level `include(":a", ":b")` statements
+    private includeLines(): { paths: string[]; lineStart: number; lineEnd: number }[] {
+        const masked = maskComments(this.text);
+        const blocks = findChildBlocks(this.text, 0, this.text.length);
+        const result: { paths: string[]; lineStart: number; lineEnd: number }[] = [];
+
+        for (const match of masked.matchAll(/^[ \t]*include\s*\((.*)\)[ \t]*$/gm)) {
+            const index = match.index!;
+            if (blocks.some(block => index > block.open && index < block.close)) continue;
+            const paths = [...match[1].matchAll(/"([^"]*)"/g)].map(m => m[1]);
+            const lineStart = index + match[0].length - match[0].trimStart().length;
+            result.push({ paths, lineStart, lineEnd: index + match[0].length });
+        }
+        return result;
+    }
+
+    private removeLineWhere(block: Block, predicate: (line: string) => boolean): boolean {
+        const line = this.lines(block).find(l => l.text.trim() && predicate(l.text.trim()));
+        if (!line) return false;
+        this.removeRange(line.lineStart, line.lineEnd);
+        return true;
+    }
+
+    // Removes whole lines, including the trailing line break
+    private removeRange(from: number, to: number) {
+        const start = this.text.lastIndexOf('\n', from - 1) + 1;
+        let end = this.text[to] === '\n' ? to + 1 : to;
+        // Don't leave a blank line right after an opening brace
+        const blankLine = this.text.slice(end).match(/^[ \t]*\n/);
+        if (blankLine && /\{[ \t]*\n$/.test(this.text.slice(0, start))) end += blankLine[0].length;
+        this.text = this.text.slice(0, start) + this.text.slice(end);
+    }
+}
+
+function normalize(value: string): string {
+    return value.replace(/\s+/g, '');
+}
+
+function stripApply(line: string): string {
+    return line.replace(/\s+apply\s+(false|true)\s*$/, '');
+}
+
+/** Direct child blocks (`name { ... }`) of the range `[from, to)`. */
+function findChildBlocks(text: string, from: number, to: number): Block[] {
+    const masked = maskAll(text);
+    const blocks: Block[] = [];
+    let depth = 0;
+    let current: { start: number; open: number; name: string } | null = null;
+
+    for (let i = from; i < to; i++) {
+        const ch = masked[i];
+        if (ch === '{') {
+            if (depth === 0) {
+                // Header is the text between the previous statement boundary and the brace
+                let start = i;
+                while (start > from && !/[\n;{}]/.test(masked[start - 1])) start--;
+                const header = text.slice(start, i).trim();
+                const headerStart = start + (text.slice(start, i).length - text.slice(start, i).trimStart().length);
+                current = { start: headerStart, open: i, name: header };
+            }
+            depth++;
+        } else if (ch === '}') {
+            depth--;
+            if (depth === 0 && current) {
+                blocks.push({ ...current, close: i });
+                current = null;
+            }
+        }
+    }
+    return blocks;
+}
+
+/** Replaces comments with spaces, keeping offsets and line breaks intact. */
+function maskComments(text: string): string {
+    return mask(text, false);
+}
+
+/** Replaces comments and string contents with spaces. */
+function maskAll(text: string): string {
+    return mask(text, true);
+}
+
+function mask(text: string, maskStrings: boolean): string {
+    const out = text.split('');
+    let i = 0;
+    const blank = (from: number, to: number) => {
+        for (let k = from; k < to; k++) if (out[k] !== '\n') out[k] = ' ';
+    };
+
+    while (i < text.length) {
+        if (text.startsWith('//', i)) {
+            const end = text.indexOf('\n', i);
+            const stop = end === -1 ? text.length : end;
+            blank(i, stop);
+            i = stop;
+        } else if (text.startsWith('/*', i)) {
+            const end = text.indexOf('*/', i + 2);
+            const stop = end === -1 ? text.length : end + 2;
+            blank(i, stop);
+            i = stop;
+        } else if (text.startsWith('"""', i)) {
+            const end = text.indexOf('"""', i + 3);
+            const stop = end === -1 ? text.length : end + 3;
+            if (maskStrings) blank(i + 3, stop - 3);
+            i = stop;
+        } else if (text[i] === '"' || text[i] === "'") {
+            const quote = text[i];
+            let j = i + 1;
+            while (j < text.length && text[j] !== quote && text[j] !== '\n') {
+                if (text[j] === '\\') j++;
+                j++;
+            }
+            if (maskStrings) blank(i + 1, j);
+            i = j + 1;
+        } else {
+            i++;
+        }
+    }
+    return out.join('');
+}
@@ -0,0 +1,67 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+export const LOCKFILE_NAME = 'create-droid.lock.json';
+
+export interface Lockfile {
+    lockfileVersion: 1;
+    toolVersion: string;
+    template: string;
+    addons: string[];
+    versions: Record<string, string>;
+}
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+export async function getToolVersion(): Promise<string> {
+    try {
+        const pkg = await fs.readJSON(path.resolve(__dirname, '../../package.json'));
+        return pkg.version;
+    } catch (e) {
+        return 'unknown';
+    }
+}
+
+export async function readLockfile(filePath: string): Promise<Lockfile> {
+    if (!fs.existsSync(filePath)) {
+        throw new Error(`Lockfile not found: ${filePath}`);
+    }
+
+    let lock: any;
+    try {
+        lock = await fs.readJSON(filePath);
+    } catch (e: any) {
+        throw new Error(`Invalid lockfile ${filePath}: ${e.message}`);
+    }
+
+    if (lock?.lockfileVersion !== 1) {
+        throw new Error(`Unsupported lockfileVersion ${lock?.lockfileVersion} in ${filePath}`);
+    }
+    if (typeof lock.template !== 'string' || !Array.isArray(lock.addons) || typeof lock.versions !== 'object'
+        || lock.versions === null || Array.isArray(lock.versions)) {
+        throw new Error(`Malformed lockfile ${filePath}: expected "template", "addons" and "versions"`);
+    }
+    if (lock.addons.some((addon: unknown) => typeof addon !== 'string')) {
+        throw new Error(`Malformed lockfile ${filePath}: "addons" must list addon names`);
+    }
+    for (const [key, version] of Object.entries(lock.versions)) {
+        if (typeof version !== 'string') {
+            throw new Error(`Malformed lockfile ${filePath}: version of "${key}" must be a string`);
+        }
+    }
+
+    return lock as Lockfile;
+}
+
+export async function writeLockfile(projectPath: string, lock: Omit<Lockfile, 'lockfileVersion' | 'toolVersion'>) {
+    const content: Lockfile = {
+        lockfileVersion: 1,
+        toolVersion: await getToolVersion(),
+        template: lock.template,
+        addons: lock.addons,
+        versions: Object.fromEntries(Object.entries(lock.versions).sort(([a], [b]) => a.localeCompare(b)))
+    };
+    await fs.writeJSON(path.join(projectPath, LOCKFILE_NAME), content, { spaces: 2 });
+}
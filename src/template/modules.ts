@@ -0,0 +1,166 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { CONSTANTS } from '../utils/constants.js';
+import { validatePackageName } from '../utils/packageName.js';
+import { GradleBuildFile } from './gradleBuildFile.js';
+import { patchFile, relocatePackage } from './templateFiles.js';
+import { applyConventionPlugins, usesConventionPlugins } from './conventionPlugins.js';
+
+export type ModuleType = 'library' | 'feature' | 'compose-library';
+
+// Template directory (relative to `templates/`) used for each module type
+export const MODULE_TEMPLATES: Record<ModuleType, string> = {
+    'library': 'modules/library',
+    'feature': 'modules/feature',
+    'compose-library': 'compose-library/library'
+};
+
+// Modules created by the "modular" layout, in creation order
+export const MODULAR_LAYOUT: { path: string; type: ModuleType; dependencies: string[] }[] = [
+    { path: ':core:data', type: 'library', dependencies: [] },
+    { path: ':core:ui', type: 'compose-library', dependencies: [] },
+    { path: ':feature:home', type: 'feature', dependencies: [':core:data', ':core:ui'] }
+];
+
+export interface ModulePath {
+    // Gradle project path, e.g. `:core:data`
+    gradlePath: string;
+    // Directory relative to the project root, e.g. `core/data`
+    dir: string;
+}
+
+export interface ModuleOptions {
+    projectPath: string;
+    module: string;
+    type: ModuleType;
+    // Package of the app; the module package is derived from it
+    basePackage: string;
+    projectName: string;
+    // `{{KEY}}` replacements for the module build file (SDK levels, versions)
+    patches: Record<string, string>;
+    // Modules that get `implementation(project(...))` on the new module
+    consumers?: string[];
+    // Modules the new module itself depends on
+    dependencies?: string[];
+}
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+/**
+ * Accepts `:core:data`, `core:data` or `core/data`.
+ */
+export function parseModulePath(input: string): ModulePath {
+    const segments = input.replace(/\\/g, '/').split(/[:/]/).filter(Boolean);
+    if (segments.length === 0) {
+        throw new Error(`Invalid module path "${input}"`);
+    }
+    for (const segment of segments) {
+        if (!/^[a-z][a-z0-9_-]*$/.test(segment)) {
+            throw new Error(`Invalid module path "${input}": "${segment}" must start with a lowercase letter and contain only a-z, 0-9, "-" or "_"`);
+        }
+    }
+    return { gradlePath: `:${segments.join(':')}`, dir: segments.join('/') };
+}
+
+export function modulePackageName(basePackage: string, module: ModulePath): string {
+    const packageName = [basePackage, ...module.dir.split('/').map(s => s.replace(/-/g, '_'))].join('.');
+    const valid = validatePackageName(packageName);
+    if (valid !== true) throw new Error(`Cannot derive a package for ${module.gradlePath}: ${valid}`);
+    return packageName;
+}
+
+/** Gradle paths of every module included in `settings.gradle.kts`. */
+export async function listModules(projectPath: string): Promise<string[]> {
+    const settingsPath = path.join(projectPath, 'settings.gradle.kts');
+    if (!fs.existsSync(settingsPath)) return [];
+    return new GradleBuildFile(await fs.readFile(settingsPath, 'utf-8')).includes();
+}
+
+/**
+ * SDK levels for new modules, taken from an existing module so they match the project.
+ */
+export async function readSdkLevels(projectPath: string, moduleDirs: string[]): Promise<Record<string, string>> {
+    const levels: Record<string, string> = {
+        '{{COMPILE_SDK}}': CONSTANTS.DEFAULTS.COMPILE_SDK,
+        '{{MIN_SDK}}': CONSTANTS.DEFAULTS.MIN_SDK
+    };
+
+    for (const dir of moduleDirs) {
+        const buildFile = path.join(projectPath, dir, 'build.gradle.kts');
+        if (!fs.existsSync(buildFile)) continue;
+        const content = await fs.readFile(buildFile, 'utf-8');
+        const compileSdk = content.match(/compileSdk\s*=\s*(\d+)/);
+        const minSdk = content.match(/minSdk\s*=\s*(\d+)/);
+        if (compileSdk) levels['{{COMPILE_SDK}}'] = compileSdk[1];
+        if (minSdk) levels['{{MIN_SDK}}'] = minSdk[1];
+        break;
+    }
+    return levels;
+}
+
+/**
+ * Creates a module from its template, registers it in `settings.gradle.kts` and
+ * wires it into each consumer.
+ */
+export async function createModule(options: ModuleOptions): Promise<ModulePath & { packageName: string }> {
+    const { projectPath, type, patches, consumers = [], dependencies = [] } = options;
+    const module = parseModulePath(options.module);
+    const moduleDir = path.join(projectPath, module.dir);
+
+    const template = MODULE_TEMPLATES[type];
+    if (!template) {
+        throw new Error(`Unknown module type "${type}". Available: ${Object.keys(MODULE_TEMPLATES).join(', ')}`);
+    }
+    if (fs.existsSync(moduleDir)) {
+        throw new Error(`Directory already exists: ${module.dir}`);
+    }
+
+    const settingsPath = path.join(projectPath, 'settings.gradle.kts');
+    if (!fs.existsSync(settingsPath)) {
+        throw new Error('settings.gradle.kts not found');
+    }
+
+    const consumerPaths = consumers.map(c => parseModulePath(c));
+    const dependencyPaths = dependencies.map(d => parseModulePath(d));
+    for (const other of [...consumerPaths, ...dependencyPaths]) {
+        if (other.gradlePath === module.gradlePath) {
+            throw new Error(`${module.gradlePath} cannot depend on itself`);
+        }
+        if (!fs.existsSync(path.join(projectPath, other.dir, 'build.gradle.kts'))) {
+            throw new Error(`Module ${other.gradlePath} has no build.gradle.kts`);
+        }
+    }
+
+    const packageName = modulePackageName(options.basePackage, module);
+
+    await fs.copy(path.resolve(__dirname, '../../templates', template), moduleDir);
+    await patchFile(path.join(moduleDir, 'build.gradle.kts'), {
+        '{{APPLICATION_ID}}': packageName,
+        ...patches
+    });
+    await relocatePackage(moduleDir, packageName, options.projectName);
+    if (usesConventionPlugins(projectPath)) {
+        await applyConventionPlugins(path.join(moduleDir, 'build.gradle.kts'));
+    }
+
+    const settings = new GradleBuildFile(await fs.readFile(settingsPath, 'utf-8'));
+    settings.addInclude(module.gradlePath);
+    await fs.writeFile(settingsPath, settings.toString());
+
+    for (const consumer of consumerPaths) {
+        await addProjectDependency(path.join(projectPath, consumer.dir, 'build.gradle.kts'), module.gradlePath);
+    }
+    for (const dependency of dependencyPaths) {
+        await addProjectDependency(path.join(moduleDir, 'build.gradle.kts'), dependency.gradlePath);
+    }
+
+    return { ...module, packageName };
+}
+
+async function addProjectDependency(buildFile: string, gradlePath: string) {
+    const gradle = new GradleBuildFile(await fs.readFile(buildFile, 'utf-8'));
+    gradle.addDependency('implementation', `project("${gradlePath}")`);
+    await fs.writeFile(buildFile, gradle.toString());
+}
@@ -0,0 +1,156 @@
+import path from 'path';
+import type { AddonRecipe, AddonStep } from './addonManager.js';
+import { SDK_PACKAGE_PATTERN } from '../sdk/sdkPackages.js';
+
+// JSON Schema subset: type, enum, pattern, required, properties, additionalProperties, items
+interface Schema {
+    type?: 'object' | 'array' | 'string' | 'number' | 'boolean';
+    enum?: readonly string[];
+    pattern?: string;
+    required?: readonly string[];
+    properties?: Record<string, Schema>;
+    additionalProperties?: boolean | Schema;
+    items?: Schema;
+}
+
+export const STEP_TYPES: readonly AddonStep['type'][] = [
+    'toml_version', 'toml_library', 'toml_plugin', 'toml_bundle',
+    'gradle_plugin_root', 'gradle_plugin_module',
+    'gradle_dependency', 'gradle_implementation', 'gradle_ksp', 'gradle_android', 'gradle_property',
+    'manifest_permission', 'manifest_component', 'xml_resource', 'proguard_rule',
+    'patch_file', 'create_file'
+];
+
+// Fields each step type reads, on top of `type`
+const STEP_FIELDS: Record<AddonStep['type'], (keyof AddonStep)[]> = {
+    toml_version: ['key', 'value'],
+    toml_library: ['key', 'value'],
+    toml_plugin: ['key', 'value'],
+    toml_bundle: ['key', 'value'],
+    gradle_plugin_root: ['key'],
+    gradle_plugin_module: ['key'],
+    gradle_dependency: ['configuration', 'value'],
+    gradle_implementation: ['value'],
+    gradle_ksp: ['value'],
+    gradle_android: ['key', 'value'],
+    gradle_property: ['key', 'value'],
+    manifest_permission: ['value'],
+    manifest_component: ['key', 'content'],
+    xml_resource: ['file', 'content'],
+    proguard_rule: ['content'],
+    patch_file: ['file', 'pattern', 'replacement'],
+    create_file: ['file', 'content']
+};
+
+const STEP_SCHEMA: Schema = {
+    type: 'object',
+    required: ['type'],
+    additionalProperties: false,
+    properties: {
+        type: { type: 'string', enum: STEP_TYPES },
+        key: { type: 'string' },
+        value: { type: 'string' },
+        configuration: { type: 'string' },
+        sourceSet: { type: 'string' },
+        target: { type: 'string', enum: ['android', 'multiplatform'] },
+        file: { type: 'string' },
+        pattern: { type: 'string' },
+        replacement: { type: 'string' },
+        content: { type: 'string' }
+    }
+};
+
+const REQUIREMENT_PROPERTIES: Record<string, Schema> = {
+    kotlin: { type: 'string' },
+    agp: { type: 'string' },
+    minSdk: { type: 'number' },
+    versions: { type: 'object', additionalProperties: { type: 'string' } }
+};
+
+const RECIPE_VERSION_SCHEMA: Schema = {
+    type: 'object',
+    required: ['range', 'latest'],
+    additionalProperties: false,
+    properties: { ...REQUIREMENT_PROPERTIES, range: { type: 'string' }, latest: { type: 'string' } }
+};
+
+export const RECIPE_SCHEMA: Schema = {
+    type: 'object',
+    required: ['name', 'description', 'steps'],
+    additionalProperties: false,
+    properties: {
+        $schema: { type: 'string' },
+        name: { type: 'string', pattern: '^[a-z0-9][a-z0-9-]*$' },
+        description: { type: 'string' },
+        dependencies: { type: 'array', items: { type: 'string' } },
+        multiplatform: { type: 'boolean' },
+        requires: { type: 'object', additionalProperties: false, properties: REQUIREMENT_PROPERTIES },
+        versions: { type: 'object', additionalProperties: { type: 'array', items: RECIPE_VERSION_SCHEMA } },
+        sdkPackages: { type: 'array', items: { type: 'string', pattern: SDK_PACKAGE_PATTERN.source } },
+        steps: { type: 'array', items: STEP_SCHEMA }
+    }
+};
+
+/**
+ * Checks a recipe loaded from a file, the project or a registry against
+ * `RECIPE_SCHEMA` and throws one error listing every invalid field.
+ */
+export function validateRecipe(raw: unknown, source: string): AddonRecipe {
+    const errors = validate(raw, RECIPE_SCHEMA, '');
+
+    const steps = (raw as any)?.steps;
+    if (Array.isArray(steps)) {
+        steps.forEach((step, index) => {
+            const fields = STEP_FIELDS[step?.type as AddonStep['type']];
+            for (const field of fields ?? []) {
+                if (step[field] === undefined) errors.push(`steps[${index}].${field}: required by ${step.type}`);
+            }
+            if (typeof step?.file === 'string' && (path.isAbsolute(step.file) || step.file.split(/[\\/]/).includes('..'))) {
+                errors.push(`steps[${index}].file: must be a relative path inside the project, got ${JSON.stringify(step.file)}`);
+            }
+        });
+    }
+
+    if (errors.length > 0) {
+        throw new Error(`Invalid recipe ${source}:\n${errors.map(error => `  - ${error}`).join('\n')}`);
+    }
+    return raw as AddonRecipe;
+}
+
+function validate(value: unknown, schema: Schema, at: string): string[] {
+    const label = at || '(root)';
+    const actual = Array.isArray(value) ? 'array' : value === null ? 'null' : typeof value;
+    if (schema.type && actual !== schema.type) {
+        return [`${label}: expected ${schema.type}, got ${actual}`];
+    }
+
+    const errors: string[] = [];
+    if (schema.enum && !schema.enum.includes(value as string)) {
+        errors.push(`${label}: must be one of ${schema.enum.join(', ')}, got ${JSON.stringify(value)}`);
+    }
+    if (schema.pattern && !new RegExp(schema.pattern).test(value as string)) {
+        errors.push(`${label}: must match ${schema.pattern}, got ${JSON.stringify(value)}`);
+    }
+
+    if (actual === 'object') {
+        const object = value as Record<string, unknown>;
+        const prefix = at ? `${at}.` : '';
+        for (const key of schema.required ?? []) {
+            if (object[key] === undefined) errors.push(`${prefix}${key}: is required`);
+        }
+        for (const [key, child] of Object.entries(object)) {
+            const childSchema = schema.properties?.[key] ?? (typeof schema.additionalProperties === 'object' ? schema.additionalProperties : undefined);
+            if (childSchema) {
+                errors.push(...validate(child, childSchema, `${prefix}${key}`));
+            } else if (schema.additionalProperties === false) {
+                errors.push(`${prefix}${key}: unknown field`);
+            }
+        }
+    }
+
+    if (actual === 'array' && schema.items) {
+        (value as unknown[]).forEach((item, index) => errors.push(...validate(item, schema.items!, `${at}[${index}]`)));
+    }
+
+    return errors;
+}
@@ -0,0 +1,66 @@
+import fs from 'fs-extra';
+import path from 'path';
+import crypto from 'crypto';
+import { getDataDir } from '../utils/cache.js';
+import type { AddonStep } from './addonManager.js';
+
+interface TrustedRecipe {
+    sha256: string;
+    trustedAt: string;
+}
+
+// Remote recipes approved on this machine, keyed by URL
+interface TrustStore {
+    recipes: Record<string, TrustedRecipe>;
+}
+
+function getTrustStorePath(): string {
+    return path.join(getDataDir(), 'trusted-recipes.json');
+}
+
+export function sha256(content: string): string {
+    return crypto.createHash('sha256').update(content).digest('hex');
+}
+
+async function readTrustStore(): Promise<TrustStore> {
+    const storePath = getTrustStorePath();
+    if (!fs.existsSync(storePath)) return { recipes: {} };
+    try {
+        const store = await fs.readJSON(storePath);
+        return { recipes: store.recipes ?? {} };
+    } catch (e) {
+        return { recipes: {} };
+    }
+}
+
+/** The checksum the recipe at `url` was trusted with, if it was. */
+export async function getTrustedChecksum(url: string): Promise<string | undefined> {
+    return (await readTrustStore()).recipes[url]?.sha256;
+}
+
+export async function trustRecipe(url: string, checksum: string) {
+    const store = await readTrustStore();
+    store.recipes[url] = { sha256: checksum, trustedAt: new Date().toISOString() };
+    await fs.ensureDir(path.dirname(getTrustStorePath()));
+    await fs.writeJSON(getTrustStorePath(), store, { spaces: 2 });
+}
+
+/** One line per step, as shown before a remote recipe is trusted. */
+export function describeStep(step: AddonStep): string {
+    switch (step.type) {
+        case 'patch_file':
+            return `patch ${step.file}: ${JSON.stringify(step.pattern)} -> ${JSON.stringify(step.replacement)}`;
+        case 'create_file':
+            return `create ${step.file} (${step.content?.split('\n').length ?? 0} lines)`;
+        case 'manifest_component':
+            return `add <${step.content?.trim().match(/^<([\w-]+)/)?.[1] ?? 'component'}> ${step.key} to the manifest`;
+        case 'xml_resource':
+            return `add ${step.content?.trim().split('\n')[0]} to ${step.file}`;
+        case 'proguard_rule':
+            return `append ProGuard rules: ${step.content?.trim().split('\n').join(' ')}`;
+        case 'gradle_dependency':
+            return `${step.type} ${step.configuration}(${step.value})`;
+        default:
+            return [step.type, step.key, step.value].filter(Boolean).join(' ');
+    }
+}
@@ -0,0 +1,97 @@
+import fs from 'fs-extra';
+import path from 'path';
+
+export async function patchFile(filePath: string, replacements: Record<string, string>) {
+  if (!fs.existsSync(filePath)) return;
+  let content = await fs.readFile(filePath, 'utf-8');
+  let modified = false;
+  for (const [key, value] of Object.entries(replacements)) {
+    if (content.includes(key)) {
+        content = content.replaceAll(key, value);
+        modified = true;
+    }
+  }
+  if (modified) await fs.writeFile(filePath, content);
+}
+
+const BINARY_EXTENSIONS = new Set(['.png', '.jpg', '.jpeg', '.webp', '.gif', '.ico', '.jar', '.zip', '.ttf', '.otf', '.jks', '.keystore']);
+
+/**
+ * Substitutes placeholders in every project file that was copied from `templateDir`.
+ * Used for user templates, whose placeholders can appear in any text file.
+ */
+export async function patchTemplateFiles(templateDir: string, projectPath: string, replacements: Record<string, string>, relativeDir = '') {
+    for (const entry of await fs.readdir(path.join(templateDir, relativeDir), { withFileTypes: true })) {
+        const relativePath = path.join(relativeDir, entry.name);
+        if (entry.name === '.git') continue;
+        if (entry.isDirectory()) {
+            await patchTemplateFiles(templateDir, projectPath, replacements, relativePath);
+        } else if (!BINARY_EXTENSIONS.has(path.extname(entry.name).toLowerCase())) {
+            await patchFile(path.join(projectPath, relativePath), replacements);
+        }
+    }
+}
+
+const TEMPLATE_PACKAGE_PATH = path.join('com', 'example', 'template');
+
+/**
+ * Moves template sources from `com/example/template` into the chosen package
+ * for every source set (main, test, androidTest, ...) of a module.
+ */
+export async function relocatePackage(moduleDir: string, packageName: string, projectName: string) {
+    const srcRoot = path.join(moduleDir, 'src');
+    if (!fs.existsSync(srcRoot)) return;
+
+    for (const sourceSet of await fs.readdir(srcRoot)) {
+        for (const lang of ['kotlin', 'java']) {
+            const srcBase = path.join(srcRoot, sourceSet, lang);
+            const oldPackagePath = path.join(srcBase, TEMPLATE_PACKAGE_PATH);
+            if (!fs.existsSync(oldPackagePath)) continue;
+
+            const newPackagePath = path.join(srcBase, ...packageName.split('.'));
+            if (newPackagePath !== oldPackagePath) {
+                // The new package may be an ancestor or a descendant of the template one,
+                // so the sources are parked outside both before moving them in
+                const stagingPath = path.join(srcBase, '.relocating');
+                await fs.move(oldPackagePath, stagingPath, { overwrite: true });
+                await cleanEmptyDirs(path.dirname(oldPackagePath));
+                await fs.ensureDir(newPackagePath);
+                for (const entry of await fs.readdir(stagingPath)) {
+                    await fs.move(path.join(stagingPath, entry), path.join(newPackagePath, entry));
+                }
+                await fs.remove(stagingPath);
+            }
+            await patchSourceFiles(newPackagePath, packageName, projectName);
+        }
+    }
+}
+
+async function patchSourceFiles(dir: string, packageName: string, projectName: string) {
+    const files = await fs.readdir(dir);
+    for (const file of files) {
+        const fullPath = path.join(dir, file);
+        if ((await fs.stat(fullPath)).isDirectory()) {
+            await patchSourceFiles(fullPath, packageName, projectName);
+        } else if (file.endsWith('.kt') || file.endsWith('.java') || file.endsWith('.xml')) {
+            await patchFile(fullPath, {
+                '{{PACKAGE_NAME}}': packageName,
+                '{{PROJECT_NAME}}': projectName,
+                '{{APPLICATION_ID}}': packageName
+            });
+        }
+    }
+}
+
+async function cleanEmptyDirs(dir: string) {
+    let currentDir = dir;
+    while (currentDir && currentDir !== path.dirname(currentDir)) {
+        try {
+            if (!fs.existsSync(currentDir)) {
+                currentDir = path.dirname(currentDir);
+            } else if ((await fs.readdir(currentDir)).length === 0) {
+                await fs.remove(currentDir);
+                currentDir = path.dirname(currentDir);
+            } else break;
+        } catch (e) { break; }
+    }
+}
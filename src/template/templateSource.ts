@@ -0,0 +1,260 @@
+import fs from 'fs-extra';
+import path from 'path';
+import os from 'os';
+import crypto from 'crypto';
+import { pipeline } from 'stream/promises';
+import { createWriteStream } from 'fs';
+import { execa } from 'execa';
+import * as tar from 'tar';
+import { logger } from '../utils/logger.js';
+import { getCachedTemplateDir } from '../utils/cache.js';
+import { SDK_PACKAGE_PATTERN } from '../sdk/sdkPackages.js';
+
+export const TEMPLATE_MANIFEST_NAME = 'template.json';
+
+export interface TemplatePrompt {
+    // Placeholder the answer is substituted for, e.g. ANALYTICS_KEY -> {{ANALYTICS_KEY}}
+    name: string;
+    message: string;
+    type: 'text' | 'confirm' | 'select';
+    initial?: string | boolean;
+    choices?: string[];
+}
+
+export interface TemplateManifest {
+    name?: string;
+    description?: string;
+    // Directory of the main module, `app` unless the template says otherwise
+    module: string;
+    // Placeholders that must have a value before anything is generated
+    placeholders: string[];
+    prompts: TemplatePrompt[];
+    // Addons selected by default
+    addons: string[];
+    // Android SDK packages installed along with the project's platform (NDK, CMake, system images)
+    sdkPackages: string[];
+}
+
+export interface ExternalTemplate {
+    source: string;
+    dir: string;
+    manifest: TemplateManifest;
+}
+
+const TARBALL_PATTERN = /\.(tgz|tar\.gz|tar)$/;
+const PLACEHOLDER_PATTERN = /^[A-Z][A-Z0-9_]*$/;
+
+/** True for `--template` values that point outside the bundled templates. */
+export function isExternalTemplate(input: string): boolean {
+    return /^(\.{1,2}[\\/]|[\\/]|~)/.test(input)
+        || /^(gh:|git\+|git@|https?:\/\/)/.test(input)
+        || TARBALL_PATTERN.test(input);
+}
+
+/**
+ * Resolves a local directory, a tarball (local or https) or a git repository
+ * (`gh:org/repo[/subdir][#ref]`, `git+https://...`, `*.git`) to a directory on disk
+ * and reads its `template.json`. Fetched templates are kept in the cache for `--offline`.
+ */
+export async function resolveTemplate(source: string, options: { offline?: boolean } = {}): Promise<ExternalTemplate> {
+    const expanded = source.startsWith('~') ? path.join(os.homedir(), source.slice(1)) : source;
+    let dir: string;
+
+    if (TARBALL_PATTERN.test(expanded) && !/^https?:\/\//.test(expanded)) {
+        dir = await extractTarball(path.resolve(process.cwd(), expanded), getCachedTemplateDir(cacheKey(source)));
+    } else if (/^[.\\/]/.test(expanded)) {
+        dir = path.resolve(process.cwd(), expanded);
+        if (!fs.existsSync(dir) || !(await fs.stat(dir)).isDirectory()) {
+            throw new Error(`Template directory not found: ${dir}`);
+        }
+    } else {
+        dir = await fetchRemoteTemplate(source, options.offline);
+    }
+
+    return { source, dir, manifest: await readTemplateManifest(dir) };
+}
+
+export async function readTemplateManifest(dir: string): Promise<TemplateManifest> {
+    const manifestPath = path.join(dir, TEMPLATE_MANIFEST_NAME);
+    if (!fs.existsSync(manifestPath)) {
+        return { module: 'app', placeholders: [], prompts: [], addons: [], sdkPackages: [] };
+    }
+
+    let raw: any;
+    try {
+        raw = await fs.readJSON(manifestPath);
+    } catch (e: any) {
+        throw new Error(`Invalid ${TEMPLATE_MANIFEST_NAME}: ${e.message}`);
+    }
+    return parseTemplateManifest(raw);
+}
+
+function parseTemplateManifest(raw: any): TemplateManifest {
+    const fail = (message: string): never => {
+        throw new Error(`Invalid ${TEMPLATE_MANIFEST_NAME}: ${message}`);
+    };
+    if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) fail('expected an object');
+
+    const module = raw.module ?? 'app';
+    if (typeof module !== 'string' || !/^[A-Za-z][A-Za-z0-9_-]*$/.test(module)) {
+        fail(`"module" must be a directory name, got ${JSON.stringify(module)}`);
+    }
+
+    const stringList = (key: string): string[] => {
+        const value = raw[key] ?? [];
+        if (!Array.isArray(value) || value.some(v => typeof v !== 'string')) fail(`"${key}" must be an array of strings`);
+        return value;
+    };
+
+    const placeholders = stringList('placeholders');
+    for (const name of placeholders) {
+        if (!PLACEHOLDER_PATTERN.test(name)) fail(`placeholder "${name}" must be UPPER_SNAKE_CASE`);
+    }
+
+    const prompts = raw.prompts ?? [];
+    if (!Array.isArray(prompts)) fail('"prompts" must be an array');
+    for (const prompt of prompts as TemplatePrompt[]) {
+        if (typeof prompt?.name !== 'string' || !PLACEHOLDER_PATTERN.test(prompt.name)) {
+            fail(`prompt name ${JSON.stringify(prompt?.name)} must be an UPPER_SNAKE_CASE placeholder`);
+        }
+        if (typeof prompt.message !== 'string') fail(`prompt "${prompt.name}" needs a "message"`);
+        prompt.type ??= 'text';
+        if (!['text', 'confirm', 'select'].includes(prompt.type)) fail(`prompt "${prompt.name}" has unknown type "${prompt.type}"`);
+        if (prompt.type === 'select' && (!Array.isArray(prompt.choices) || prompt.choices.length === 0)) {
+            fail(`select prompt "${prompt.name}" needs "choices"`);
+        }
+    }
+
+    const sdkPackages = stringList('sdkPackages');
+    for (const name of sdkPackages) {
+        if (!SDK_PACKAGE_PATTERN.test(name)) fail(`"${name}" is not an sdkmanager package path`);
+    }
+
+    return {
+        name: raw.name,
+        description: raw.description,
+        module,
+        placeholders,
+        prompts,
+        addons: stringList('addons'),
+        sdkPackages
+    };
+}
+
+/** Value a prompt resolves to when prompts are skipped, or undefined if it has none. */
+export function defaultPromptValue(prompt: TemplatePrompt): string | undefined {
+    if (prompt.initial !== undefined) return String(prompt.initial);
+    if (prompt.type === 'confirm') return 'false';
+    if (prompt.type === 'select') return prompt.choices![0];
+    return undefined;
+}
+
+async function fetchRemoteTemplate(source: string, offline = false): Promise<string> {
+    const cacheDir = getCachedTemplateDir(cacheKey(source));
+
+    if (offline) {
+        if (!fs.existsSync(cacheDir)) {
+            throw new Error(`Offline: template ${source} is not cached. Run once online to populate ${path.dirname(cacheDir)}.`);
+        }
+        logger.info(`Using cached template ${source}`);
+        return templateRoot(cacheDir);
+    }
+
+    const fetchDir = `${cacheDir}.part`;
+    await fs.remove(fetchDir);
+    try {
+        logger.info(`Fetching template ${source}...`);
+        if (/^https?:\/\//.test(source) && TARBALL_PATTERN.test(new URL(source).pathname)) {
+            await downloadTarball(source, fetchDir);
+        } else {
+            await cloneRepository(source, fetchDir);
+        }
+        await fs.remove(cacheDir);
+        await fs.move(fetchDir, cacheDir);
+    } catch (e: any) {
+        await fs.remove(fetchDir);
+        if (fs.existsSync(cacheDir)) {
+            logger.warn(`Fetching template failed (${e.message}), using cached copy`);
+        } else {
+            throw new Error(`Failed to fetch template ${source}: ${e.message}`);
+        }
+    }
+    return templateRoot(cacheDir);
+}
+
+async function cloneRepository(source: string, dest: string) {
+    let url = source;
+    let ref: string | undefined;
+    let subdir = '';
+
+    const hashIndex = url.lastIndexOf('#');
+    if (hashIndex !== -1) {
+        ref = url.slice(hashIndex + 1);
+        url = url.slice(0, hashIndex);
+    }
+
+    if (url.startsWith('gh:')) {
+        const [owner, repo, ...rest] = url.slice(3).split('/');
+        if (!owner || !repo) throw new Error(`Expected gh:<owner>/<repo>, got ${source}`);
+        url = `https://github.com/${owner}/${repo}.git`;
+        subdir = rest.join('/');
+    } else if (url.startsWith('git+')) {
+        url = url.slice(4);
+    }
+
+    const cloneDir = subdir ? `${dest}.clone` : dest;
+    await fs.remove(cloneDir);
+    // Fail instead of waiting for credentials when the repository is private or missing
+    await execa('git', ['clone', '--depth', '1', ...(ref ? ['--branch', ref] : []), url, cloneDir], {
+        env: { GIT_TERMINAL_PROMPT: '0' }
+    });
+    await fs.remove(path.join(cloneDir, '.git'));
+
+    if (subdir) {
+        const subdirPath = path.join(cloneDir, subdir);
+        if (!fs.existsSync(subdirPath)) {
+            await fs.remove(cloneDir);
+            throw new Error(`Directory "${subdir}" not found in ${url}`);
+        }
+        await fs.move(subdirPath, dest);
+        await fs.remove(cloneDir);
+    }
+}
+
+async function downloadTarball(url: string, dest: string) {
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`Failed to download ${url}: ${response.statusText}`);
+    if (!response.body) throw new Error('No body in response');
+
+    const archivePath = path.join(os.tmpdir(), `create-droid-${cacheKey(url)}.tgz`);
+    try {
+        await pipeline(response.body as any, createWriteStream(archivePath));
+        await extractTarball(archivePath, dest);
+    } finally {
+        await fs.remove(archivePath);
+    }
+}
+
+async function extractTarball(archivePath: string, dest: string): Promise<string> {
+    if (!fs.existsSync(archivePath)) {
+        throw new Error(`Template archive not found: ${archivePath}`);
+    }
+    await fs.remove(dest);
+    await fs.ensureDir(dest);
+    await tar.x({ file: archivePath, cwd: dest });
+    return templateRoot(dest);
+}
+
+// Archives usually wrap everything in a single top-level directory (`repo-main/`, `package/`)
+async function templateRoot(dir: string): Promise<string> {
+    if (fs.existsSync(path.join(dir, TEMPLATE_MANIFEST_NAME))) return dir;
+    const entries = await fs.readdir(dir, { withFileTypes: true });
+    if (entries.length === 1 && entries[0].isDirectory()) {
+        return path.join(dir, entries[0].name);
+    }
+    return dir;
+}
+
+function cacheKey(source: string): string {
+    return crypto.createHash('sha256').update(source).digest('hex').slice(0, 16);
+}
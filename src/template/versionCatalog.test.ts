@@ -0,0 +1,59 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { VersionCatalog } from './versionCatalog.js';
+
+const CATALOG = `# Shared versions
+[versions]
+agp = "8.8.2"   # keep in step with the wrapper
+kotlin = "2.1.10"
+
+# Libraries
+[libraries]
+androidx-core-ktx = { group = "androidx.core", name = "core-ktx", version.ref = "coreKtx" }
+junit = "junit:junit:4.13.2"
+compose-bom = { module = "androidx.compose:compose-bom", version = "2025.02.00" }
+
+[plugins]
+android-application = { id = "com.android.application", version.ref = "agp" }
+`;
+
+test('parse and toString round-trip byte for byte', () => {
+    assert.equal(VersionCatalog.parse(CATALOG).toString(), CATALOG);
+});
+
+test('round-trip keeps CRLF line endings and a missing final newline', () => {
+    const crlf = CATALOG.replace(/\n/g, '\r\n');
+    assert.equal(VersionCatalog.parse(crlf).toString(), crlf);
+    const unterminated = CATALOG.trimEnd();
+    assert.equal(VersionCatalog.parse(unterminated).toString(), unterminated);
+});
+
+test('set adds an entry in sorted position once', () => {
+    const catalog = VersionCatalog.parse(CATALOG);
+    assert.equal(catalog.set('versions', 'hilt', '"2.55"'), 'added');
+    assert.equal(catalog.set('versions', 'hilt', '"2.55"'), 'unchanged');
+    assert.deepEqual(catalog.keys('versions'), ['agp', 'hilt', 'kotlin']);
+});
+
+test('set rejects an alias that points at other coordinates', () => {
+    const catalog = VersionCatalog.parse(CATALOG);
+    assert.throws(() => catalog.set('libraries', 'junit', '"org.junit:junit:5.0"'), /Catalog conflict/);
+});
+
+test('setVersion keeps the rest of the line and its comment', () => {
+    const catalog = VersionCatalog.parse(CATALOG);
+    assert.equal(catalog.setVersion('versions', 'agp', '8.9.0'), true);
+    assert.equal(catalog.setVersion('libraries', 'compose-bom', '2025.03.00'), true);
+    const text = catalog.toString();
+    assert.match(text, /^agp = "8\.9\.0" {3}# keep in step with the wrapper$/m);
+    assert.match(text, /version = "2025\.03\.00" }$/m);
+});
+
+test('remove after set restores the original text', () => {
+    const catalog = VersionCatalog.parse(CATALOG);
+    catalog.set('libraries', 'coil-compose', '{ group = "io.coil-kt", name = "coil-compose", version.ref = "coil" }');
+    catalog.addToBundle('images', ['coil-compose']);
+    catalog.removeFromBundle('images', ['coil-compose']);
+    catalog.remove('libraries', 'coil-compose');
+    assert.equal(catalog.toString(), CATALOG);
+});
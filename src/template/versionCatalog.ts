@@ -0,0 +1,415 @@
+export type CatalogSection = 'versions' | 'libraries' | 'plugins' | 'bundles';
+
+export type TomlValue = string | number | boolean | TomlValue[] | { [key: string]: TomlValue };
+
+interface CatalogEntry {
+    key: string;
+    value: string;
+    // Blank lines and comments directly above the entry
+    leading: string[];
+    source: string[];
+}
+
+interface Section {
+    name: string;
+    header: string[];
+    entries: CatalogEntry[];
+    trailing: string[];
+}
+
+const SECTION_ORDER: CatalogSection[] = ['versions', 'libraries', 'plugins', 'bundles'];
+
+/**
+ * Line-preserving model of `gradle/libs.versions.toml`.
+ * Untouched entries, comments and ordering are written back byte for byte.
+ */
+export class VersionCatalog {
+    private constructor(
+        private preamble: string[],
+        private sections: Section[],
+        private eol: string
+    ) {}
+
+    static parse(text: string): VersionCatalog {
+        const eol = text.includes('\r\n') ? '\r\n' : '\n';
+        const lines = text.split(/\r?\n/);
+        const preamble: string[] = [];
+        const sections: Section[] = [];
+        let current: Section | null = null;
+        let pending: string[] = [];
+
+        for (let i = 0; i < lines.length; i++) {
+            const line = lines[i];
+            const trimmed = line.trim();
+
+            const header = trimmed.match(/^\[([^\[\]]+)\]\s*(#.*)?$/);
+            if (header) {
+                if (current) current.trailing = pending;
+                else preamble.push(...pending);
+                pending = [];
+                current = { name: header[1].trim(), header: [line], entries: [], trailing: [] };
+                sections.push(current);
+                continue;
+            }
+
+            if (!current || trimmed === '' || trimmed.startsWith('#')) {
+                if (current) pending.push(line);
+                else preamble.push(line);
+                continue;
+            }
+
+            const assignment = line.match(/^\s*("[^"]+"|[A-Za-z0-9_.-]+)\s*=\s*(.*)$/);
+            if (!assignment) {
+                throw new Error(`Cannot parse version catalog line ${i + 1}: ${line}`);
+            }
+
+            // Values such as bundle arrays may span several lines
+            const entryLines = [line];
+            let value = assignment[2];
+            while (!isBalanced(value) && i + 1 < lines.length) {
+                i++;
+                entryLines.push(lines[i]);
+                value += '\n' + lines[i];
+            }
+
+            current.entries.push({
+                key: assignment[1].replace(/^"|"$/g, ''),
+                value: stripComment(value).trim(),
+                leading: pending,
+                source: entryLines
+            });
+            pending = [];
+        }
+
+        if (current) current.trailing = pending;
+        else preamble.push(...pending);
+
+        return new VersionCatalog(preamble, sections, eol);
+    }
+
+    toString(): string {
+        const lines = [...this.preamble];
+        for (const section of this.sections) {
+            lines.push(...section.header);
+            for (const entry of section.entries) lines.push(...entry.leading, ...entry.source);
+            lines.push(...section.trailing);
+        }
+        return lines.join(this.eol);
+    }
+
+    keys(section: CatalogSection): string[] {
+        return this.findSection(section)?.entries.map(e => e.key) ?? [];
+    }
+
+    has(section: CatalogSection, key: string): boolean {
+        return this.findEntry(section, key) !== undefined;
+    }
+
+    /** Raw TOML value text of an entry. */
+    getRaw(section: CatalogSection, key: string): string | undefined {
+        return this.findEntry(section, key)?.value;
+    }
+
+    get(section: CatalogSection, key: string): TomlValue | undefined {
+        const raw = this.getRaw(section, key);
+        return raw === undefined ? undefined : parseTomlValue(raw);
+    }
+
+    /** Version string of a `[versions]` entry. */
+    getVersion(key: string): string | undefined {
+        const value = this.get('versions', key);
+        return typeof value === 'string' ? value : undefined;
+    }
+
+    /**
+     * Adds an entry in sorted position. An existing entry with the same coordinates is left
+     * as-is; one pointing at different coordinates is reported as a conflict.
+     */
+    set(section: CatalogSection, key: string, rawValue: string): 'added' | 'unchanged' {
+        const existing = this.findEntry(section, key);
+        if (existing) {
+            if (section === 'versions' || section === 'bundles') return 'unchanged';
+
+            const current = coordinates(section, parseTomlValue(existing.value));
+            const wanted = coordinates(section, parseTomlValue(rawValue));
+            if (current !== wanted) {
+                throw new Error(`Catalog conflict: [${section}] ${existing.key} already points to ${current}, not ${wanted}`);
+            }
+            return 'unchanged';
+        }
+
+        const target = this.ensureSection(section);
+        const entry: CatalogEntry = { key, value: rawValue, leading: [], source: [`${key} = ${rawValue}`] };
+        const index = target.entries.findIndex(e => e.key.localeCompare(key) > 0);
+        if (index === -1) target.entries.push(entry);
+        else target.entries.splice(index, 0, entry);
+        return 'added';
+    }
+
+    /** Version of a `[versions]` entry, or the inline version of a library or plugin (`"g:a:1.0"`, `version = "1.0"`). */
+    getInlineVersion(section: CatalogSection, key: string): string | undefined {
+        const value = this.get(section, key);
+        if (value === undefined) return undefined;
+        if (section === 'versions') return typeof value === 'string' ? value : undefined;
+        if (typeof value === 'string') return value.split(':')[section === 'plugins' ? 1 : 2];
+        return isTable(value) && typeof value.version === 'string' ? value.version : undefined;
+    }
+
+    /** Replaces the version `getInlineVersion` returns, keeping the rest of the line (and its comment) as written. */
+    setVersion(section: CatalogSection, key: string, version: string): boolean {
+        const entry = this.findEntry(section, key);
+        const current = this.getInlineVersion(section, key);
+        if (!entry || current === undefined || current === version) return false;
+
+        const pattern = new RegExp(`(["':])${current.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(["'])`);
+        entry.value = entry.value.replace(pattern, `$1${version}$2`);
+        const line = entry.source.findIndex(l => pattern.test(l));
+        if (line !== -1) entry.source[line] = entry.source[line].replace(pattern, `$1${version}$2`);
+        return true;
+    }
+
+    remove(section: CatalogSection, key: string): boolean {
+        const target = this.findSection(section);
+        const entry = this.findEntry(section, key);
+        if (!target || !entry) return false;
+
+        // Comments described the removed entry, but blank lines separate groups and are kept
+        const index = target.entries.indexOf(entry);
+        const separators = entry.leading.filter(line => line.trim() === '');
+        target.entries.splice(index, 1);
+        if (index < target.entries.length) {
+            target.entries[index].leading.unshift(...separators);
+        } else {
+            target.trailing.unshift(...separators);
+        }
+        return true;
+    }
+
+    /** Adds library aliases to a bundle, creating it when needed. */
+    addToBundle(bundle: string, aliases: string[]): 'added' | 'unchanged' {
+        const existing = this.findEntry('bundles', bundle);
+        const current = existing ? asStringArray(parseTomlValue(existing.value)) : [];
+        const missing = aliases.filter(alias => !current.some(c => normalizeKey(c) === normalizeKey(alias)));
+        if (existing && missing.length === 0) return 'unchanged';
+
+        const value = formatArray([...current, ...missing]);
+        if (existing) {
+            this.replaceValue(existing, value);
+            return 'added';
+        }
+        return this.set('bundles', bundle, value);
+    }
+
+    /** Removes library aliases from a bundle, deleting the bundle once empty. */
+    removeFromBundle(bundle: string, aliases: string[]): boolean {
+        const existing = this.findEntry('bundles', bundle);
+        if (!existing) return false;
+
+        const current = asStringArray(parseTomlValue(existing.value));
+        const remaining = current.filter(c => !aliases.some(alias => normalizeKey(c) === normalizeKey(alias)));
+        if (remaining.length === current.length) return false;
+
+        if (remaining.length === 0) {
+            this.remove('bundles', bundle);
+            // Templates ship without [bundles]; drop the section again once it is empty
+            const section = this.findSection('bundles')!;
+            if (section.entries.length === 0) this.sections.splice(this.sections.indexOf(section), 1);
+            return true;
+        }
+        this.replaceValue(existing, formatArray(remaining));
+        return true;
+    }
+
+    private replaceValue(entry: CatalogEntry, value: string) {
+        const indent = entry.source[0].match(/^\s*/)?.[0] ?? '';
+        entry.value = value;
+        entry.source = [`${indent}${entry.key} = ${value}`];
+    }
+
+    private findSection(name: CatalogSection): Section | undefined {
+        return this.sections.find(s => s.name === name);
+    }
+
+    // Gradle treats '-', '_' and '.' in aliases as the same accessor separator
+    private findEntry(section: CatalogSection, key: string): CatalogEntry | undefined {
+        return this.findSection(section)?.entries.find(e => normalizeKey(e.key) === normalizeKey(key));
+    }
+
+    private ensureSection(name: CatalogSection): Section {
+        const existing = this.findSection(name);
+        if (existing) return existing;
+
+        const section: Section = { name, header: [`[${name}]`], entries: [], trailing: [''] };
+        const order = SECTION_ORDER.indexOf(name);
+        const nextIndex = this.sections.findIndex(s => SECTION_ORDER.indexOf(s.name as CatalogSection) > order);
+
+        if (nextIndex === -1) {
+            const last = this.sections[this.sections.length - 1];
+            if (last && last.trailing.length === 0) last.trailing.push('');
+            this.sections.push(section);
+        } else {
+            this.sections.splice(nextIndex, 0, section);
+        }
+        return section;
+    }
+}
+
+export function normalizeKey(key: string): string {
+    return key.replace(/[-_.]/g, '-');
+}
+
+/** Identity of a library (`group:name`) or plugin (`id`), ignoring its version. */
+function coordinates(section: CatalogSection, value: TomlValue): string {
+    if (section === 'plugins') {
+        if (typeof value === 'string') return value.split(':')[0];
+        if (isTable(value) && typeof value.id === 'string') return value.id;
+    }
+    if (section === 'libraries') {
+        if (typeof value === 'string') return value.split(':').slice(0, 2).join(':');
+        if (isTable(value)) {
+            if (typeof value.module === 'string') return value.module;
+            if (typeof value.group === 'string' && typeof value.name === 'string') return `${value.group}:${value.name}`;
+        }
+    }
+    return JSON.stringify(value);
+}
+
+function isTable(value: TomlValue): value is { [key: string]: TomlValue } {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function asStringArray(value: TomlValue): string[] {
+    return Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : [];
+}
+
+function formatArray(items: string[]): string {
+    return `[${items.map(item => JSON.stringify(item)).join(', ')}]`;
+}
+
+function stripComment(text: string): string {
+    let result = '';
+    let quote: string | null = null;
+    for (let i = 0; i < text.length; i++) {
+        const ch = text[i];
+        if (quote) {
+            if (ch === '\\' && quote === '"') {
+                result += ch + (text[i + 1] ?? '');
+                i++;
+                continue;
+            }
+            if (ch === quote) quote = null;
+        } else if (ch === '"' || ch === "'") {
+            quote = ch;
+        } else if (ch === '#') {
+            // Skip to end of line
+            while (i < text.length && text[i] !== '\n') i++;
+            if (i < text.length) result += '\n';
+            continue;
+        }
+        result += ch;
+    }
+    return result;
+}
+
+function isBalanced(value: string): boolean {
+    let depth = 0;
+    for (const ch of stripComment(value).replace(/"(?:[^"\\]|\\.)*"|'[^']*'/g, '')) {
+        if (ch === '[' || ch === '{') depth++;
+        if (ch === ']' || ch === '}') depth--;
+    }
+    return depth <= 0;
+}
+
+/**
+ * Parses the subset of TOML values used by version catalogs: strings,
+ * numbers, booleans, arrays and inline tables (dotted keys are kept flat,
+ * e.g. `version.ref`).
+ */
+export function parseTomlValue(raw: string): TomlValue {
+    const text = stripComment(raw);
+    let pos = 0;
+
+    const skipWhitespace = () => {
+        while (pos < text.length && /\s/.test(text[pos])) pos++;
+    };
+
+    const parseString = (): string => {
+        const quote = text[pos++];
+        let result = '';
+        while (pos < text.length && text[pos] !== quote) {
+            if (quote === '"' && text[pos] === '\\') {
+                const next = text[pos + 1];
+                result += next === 'n' ? '\n' : next === 't' ? '\t' : next;
+                pos += 2;
+                continue;
+            }
+            result += text[pos++];
+        }
+        if (pos >= text.length) throw new Error(`Unterminated string in ${raw}`);
+        pos++;
+        return result;
+    };
+
+    const parseKey = (): string => {
+        skipWhitespace();
+        if (text[pos] === '"' || text[pos] === "'") return parseString();
+        const start = pos;
+        while (pos < text.length && /[A-Za-z0-9_.-]/.test(text[pos])) pos++;
+        if (start === pos) throw new Error(`Expected key at "${text.slice(pos)}" in ${raw}`);
+        return text.slice(start, pos);
+    };
+
+    const parseAny = (): TomlValue => {
+        skipWhitespace();
+        const ch = text[pos];
+
+        if (ch === '"' || ch === "'") return parseString();
+
+        if (ch === '[') {
+            pos++;
+            const items: TomlValue[] = [];
+            skipWhitespace();
+            while (text[pos] !== ']') {
+                items.push(parseAny());
+                skipWhitespace();
+                if (text[pos] === ',') pos++;
+                skipWhitespace();
+                if (pos >= text.length) throw new Error(`Unterminated array in ${raw}`);
+            }
+            pos++;
+            return items;
+        }
+
+        if (ch === '{') {
+            pos++;
+            const table: { [key: string]: TomlValue } = {};
+            skipWhitespace();
+            while (text[pos] !== '}') {
+                const key = parseKey();
+                skipWhitespace();
+                if (text[pos] !== '=') throw new Error(`Expected "=" after ${key} in ${raw}`);
+                pos++;
+                table[key] = parseAny();
+                skipWhitespace();
+                if (text[pos] === ',') pos++;
+                skipWhitespace();
+                if (pos >= text.length) throw new Error(`Unterminated inline table in ${raw}`);
+            }
+            pos++;
+            return table;
+        }
+
+        const start = pos;
+        while (pos < text.length && !/[\s,\]}]/.test(text[pos])) pos++;
+        const word = text.slice(start, pos);
+        if (word === 'true') return true;
+        if (word === 'false') return false;
+        if (word !== '' && !isNaN(Number(word))) return Number(word);
+        throw new Error(`Unsupported TOML value "${word}" in ${raw}`);
+    };
+
+    const value = parseAny();
+    skipWhitespace();
+    if (pos < text.length) throw new Error(`Unexpected content "${text.slice(pos)}" in ${raw}`);
+    return value;
+}
@@ -0,0 +1,41 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseArgs, getList } from './args.js';
+
+const KNOWN = ['yes', 'git', 'offline', 'package', 'libraries'];
+
+test('--no-x turns a switch off and --x turns it on', () => {
+    assert.deepEqual(parseArgs(['--no-git', '--offline'], KNOWN).flags, { git: false, offline: true });
+});
+
+test('--x=value sets a value, also for values that start with a dash', () => {
+    assert.deepEqual(parseArgs(['--package=com.acme.app', '--libraries=-x'], KNOWN).flags, { package: 'com.acme.app', libraries: '-x' });
+});
+
+test('--x=true|false sets a switch and anything else is rejected', () => {
+    assert.deepEqual(parseArgs(['--git=false', '--offline=true'], KNOWN).flags, { git: false, offline: true });
+    assert.throws(() => parseArgs(['--git=no'], KNOWN), /--git is a switch/);
+});
+
+test('a value flag takes the next token unless it is another option', () => {
+    const parsed = parseArgs(['my-app', '--package', 'com.acme.app', '-y'], KNOWN);
+    assert.deepEqual(parsed.positionals, ['my-app']);
+    assert.deepEqual(parsed.flags, { package: 'com.acme.app', yes: true });
+    assert.throws(() => parseArgs(['--package', '--offline'], KNOWN), /Missing value for --package/);
+});
+
+test('unknown options are rejected instead of swallowing their value', () => {
+    assert.throws(() => parseArgs(['--libary', 'hilt'], KNOWN), /Unknown option: --libary/);
+    assert.throws(() => parseArgs(['--pakage=com.acme.app'], KNOWN), /Unknown option: --pakage/);
+    assert.throws(() => parseArgs(['--no-colour'], KNOWN), /Unknown option: --no-colour/);
+    assert.throws(() => parseArgs(['-q'], KNOWN), /Unknown option: -q/);
+    assert.throws(() => parseArgs(['-y'], ['offline']), /Unknown option: -y/);
+});
+
+test('everything after -- is positional', () => {
+    assert.deepEqual(parseArgs(['--', '--offline', 'x'], KNOWN), { positionals: ['--offline', 'x'], flags: {} });
+});
+
+test('getList splits and trims comma-separated values', () => {
+    assert.deepEqual(getList(parseArgs(['--libraries', ' hilt, room,,'], KNOWN).flags, 'libraries'), ['hilt', 'room']);
+});
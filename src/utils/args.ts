@@ -0,0 +1,100 @@
+export interface ParsedArgs {
+    positionals: string[];
+    flags: Record<string, string | boolean>;
+}
+
+// Flags that never take a value. Everything else consumes the next token
+// unless it is written as `--flag=value`.
+const BOOLEAN_FLAGS = new Set(['yes', 'git', 'offline', 'force', 'dry-run', 'modular', 'convention-plugins', 'trust', 'all', 'json']);
+
+const SHORT_FLAGS: Record<string, string> = {
+    y: 'yes',
+};
+
+/**
+ * Splits `args` into positionals and flags. Only the long flags listed in `knownFlags`
+ * are accepted, so a misspelled option fails instead of being dropped along with its value.
+ */
+export function parseArgs(args: string[], knownFlags: readonly string[]): ParsedArgs {
+    const positionals: string[] = [];
+    const flags: Record<string, string | boolean> = {};
+    const known = new Set(knownFlags);
+    const checkKnown = (name: string) => {
+        if (!known.has(name)) throw new Error(`Unknown option: --${name}`);
+    };
+
+    for (let i = 0; i < args.length; i++) {
+        const arg = args[i];
+
+        if (arg === '--') {
+            positionals.push(...args.slice(i + 1));
+            break;
+        }
+
+        if (arg.startsWith('--')) {
+            const eqIndex = arg.indexOf('=');
+            const name = eqIndex === -1 ? arg.slice(2) : arg.slice(2, eqIndex);
+
+            if (eqIndex !== -1) {
+                checkKnown(name);
+                const value = arg.slice(eqIndex + 1);
+                if (BOOLEAN_FLAGS.has(name)) {
+                    if (value !== 'true' && value !== 'false') {
+                        throw new Error(`--${name} is a switch; use --${name}, --no-${name} or --${name}=true|false`);
+                    }
+                    flags[name] = value === 'true';
+                } else {
+                    flags[name] = value;
+                }
+                continue;
+            }
+
+            if (name.startsWith('no-') && BOOLEAN_FLAGS.has(name.slice(3))) {
+                checkKnown(name.slice(3));
+                flags[name.slice(3)] = false;
+                continue;
+            }
+
+            checkKnown(name);
+            if (BOOLEAN_FLAGS.has(name)) {
+                flags[name] = true;
+                continue;
+            }
+
+            const next = args[i + 1];
+            if (next === undefined || next.startsWith('-')) {
+                throw new Error(`Missing value for --${name}`);
+            }
+            flags[name] = next;
+            i++;
+            continue;
+        }
+
+        if (arg.startsWith('-') && arg.length > 1) {
+            for (const short of arg.slice(1)) {
+                const name = SHORT_FLAGS[short];
+                if (!name || !known.has(name)) throw new Error(`Unknown option: -${short}`);
+                flags[name] = true;
+            }
+            continue;
+        }
+
+        positionals.push(arg);
+    }
+
+    return { positionals, flags };
+}
+
+export function getString(flags: ParsedArgs['flags'], ...names: string[]): string | undefined {
+    for (const name of names) {
+        const value = flags[name];
+        if (typeof value === 'string') return value;
+    }
+    return undefined;
+}
+
+export function getList(flags: ParsedArgs['flags'], name: string): string[] | undefined {
+    const value = getString(flags, name);
+    if (value === undefined) return undefined;
+    return value.split(',').map(v => v.trim()).filter(Boolean);
+}
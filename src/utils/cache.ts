@@ -0,0 +1,55 @@
+import path from 'path';
+import os from 'os';
+import fs from 'fs-extra';
+
+interface VersionCache {
+    resolvedAt: string;
+    versions: Record<string, string>;
+}
+
+export function getDataDir(): string {
+    return path.join(os.homedir(), '.local', 'share', 'create-android-app');
+}
+
+function getCacheDir(): string {
+    return path.join(getDataDir(), 'cache');
+}
+
+export async function readVersionCache(): Promise<VersionCache | null> {
+    const cacheFile = path.join(getCacheDir(), 'versions.json');
+    if (!fs.existsSync(cacheFile)) return null;
+    try {
+        return await fs.readJSON(cacheFile);
+    } catch (e) {
+        return null;
+    }
+}
+
+/**
+ * Merges freshly resolved versions into the on-disk cache so a later
+ * `--offline` run can reuse them.
+ */
+export async function writeVersionCache(versions: Record<string, string>) {
+    const existing = await readVersionCache();
+    const cache: VersionCache = {
+        resolvedAt: new Date().toISOString(),
+        versions: { ...existing?.versions, ...versions }
+    };
+    await fs.ensureDir(getCacheDir());
+    await fs.writeJSON(path.join(getCacheDir(), 'versions.json'), cache, { spaces: 2 });
+}
+
+export function getCachedArtifactPath(fileName: string): string {
+    return path.join(getCacheDir(), 'artifacts', fileName);
+}
+
+export function getCachedTemplateDir(key: string): string {
+    return path.join(getCacheDir(), 'templates', key);
+}
+
+export async function cacheArtifact(sourcePath: string, fileName: string) {
+    const dest = getCachedArtifactPath(fileName);
+    if (path.resolve(sourcePath) === path.resolve(dest)) return;
+    await fs.ensureDir(path.dirname(dest));
+    await fs.copy(sourcePath, dest, { overwrite: true });
+}
@@ -8,11 +8,12 @@ export const CONSTANTS = {
   // Android SDK
   CMDLINE_TOOLS_URL_LINUX: "https://dl.google.com/android/repository/commandlinetools-linux-11076708_latest.zip",
   CMDLINE_TOOLS_URL_MAC: "https://dl.google.com/android/repository/commandlinetools-mac-11076708_latest.zip",
+  CMDLINE_TOOLS_SHA256_LINUX: "2d2d50857e4eb553af5a6dc3ad507a17adf43d115264b1afc116f95c92e5e258",
+  CMDLINE_TOOLS_SHA256_MAC: "7bc5c72ba0275c80a8f19684fb92793b83a6b5c94d4d179fc5988930282d7e64",
   
-  SDK_PACKAGES: [
+  // Installed into every SDK; platforms and build-tools follow the project's compileSdk
+  SDK_BASE_PACKAGES: [
     "platform-tools",
-    "platforms;android-35",
-    "build-tools;35.0.0",
     "cmdline-tools;latest"
   ],
 
@@ -33,6 +34,18 @@ export const CONSTANTS = {
     TV_FOUNDATION_VERSION: "1.0.0-alpha12",
     TV_MATERIAL_VERSION: "1.0.0",
     CONSTRAINTLAYOUT_VERSION: "2.2.0",
+    RETROFIT_VERSION: "2.11.0",
+    KTOR_VERSION: "3.1.0",
+    COIL_VERSION: "2.7.0",
+    HILT_VERSION: "2.55",
+    ROOM_VERSION: "2.6.1",
+    DATASTORE_VERSION: "1.1.2",
+    COROUTINES_VERSION: "1.10.1",
+    WEAR_COMPOSE_VERSION: "1.4.1",
+    HOROLOGIST_VERSION: "0.6.22",
+    GLANCE_VERSION: "1.1.1",
+    SERIALIZATION_VERSION: "1.8.0",
+    KSP_VERSION: "2.1.10-1.0.31",
     COMPILE_SDK: "35",
     TARGET_SDK: "35",
     MIN_SDK: "24",
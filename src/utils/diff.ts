@@ -0,0 +1,90 @@
+import kleur from 'kleur';
+
+type DiffLine = { op: ' ' | '-' | '+'; text: string; oldNo: number; newNo: number };
+
+const CONTEXT_LINES = 3;
+
+/**
+ * Line-based unified diff (LCS). Inputs are small project files, so the
+ * quadratic table is not a concern.
+ */
+export function createUnifiedDiff(fileName: string, before: string | null, after: string | null): string {
+    const oldLines = before === null ? [] : before.split('\n');
+    const newLines = after === null ? [] : after.split('\n');
+    const lines = diffLines(oldLines, newLines);
+
+    const output = [
+        `--- ${before === null ? '/dev/null' : `a/${fileName}`}`,
+        `+++ ${after === null ? '/dev/null' : `b/${fileName}`}`
+    ];
+
+    for (const hunk of groupHunks(lines)) {
+        const first = hunk[0];
+        const oldCount = hunk.filter(l => l.op !== '+').length;
+        const newCount = hunk.filter(l => l.op !== '-').length;
+        const oldStart = oldCount === 0 ? first.oldNo : first.oldNo + 1;
+        const newStart = newCount === 0 ? first.newNo : first.newNo + 1;
+        output.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+        output.push(...hunk.map(l => `${l.op}${l.text}`));
+    }
+
+    return output.join('\n');
+}
+
+export function colorizeDiff(diff: string): string {
+    return diff.split('\n').map(line => {
+        if (line.startsWith('+++') || line.startsWith('---')) return kleur.bold(line);
+        if (line.startsWith('@@')) return kleur.cyan(line);
+        if (line.startsWith('+')) return kleur.green(line);
+        if (line.startsWith('-')) return kleur.red(line);
+        return line;
+    }).join('\n');
+}
+
+function diffLines(a: string[], b: string[]): DiffLine[] {
+    const table: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            table[i][j] = a[i] === b[j] ? table[i + 1][j + 1] + 1 : Math.max(table[i + 1][j], table[i][j + 1]);
+        }
+    }
+
+    const result: DiffLine[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < a.length || j < b.length) {
+        if (i < a.length && j < b.length && a[i] === b[j]) {
+            result.push({ op: ' ', text: a[i], oldNo: i, newNo: j });
+            i++; j++;
+        } else if (j < b.length && (i >= a.length || table[i][j + 1] >= table[i + 1][j])) {
+            result.push({ op: '+', text: b[j], oldNo: i, newNo: j });
+            j++;
+        } else {
+            result.push({ op: '-', text: a[i], oldNo: i, newNo: j });
+            i++;
+        }
+    }
+    return result;
+}
+
+function groupHunks(lines: DiffLine[]): DiffLine[][] {
+    const hunks: DiffLine[][] = [];
+    let start = -1;
+    let end = -1;
+
+    lines.forEach((line, index) => {
+        if (line.op === ' ') return;
+        const from = Math.max(0, index - CONTEXT_LINES);
+        const to = Math.min(lines.length - 1, index + CONTEXT_LINES);
+        if (start !== -1 && from <= end + 1) {
+            end = to;
+        } else {
+            if (start !== -1) hunks.push(lines.slice(start, end + 1));
+            start = from;
+            end = to;
+        }
+    });
+    if (start !== -1) hunks.push(lines.slice(start, end + 1));
+
+    return hunks;
+}
@@ -0,0 +1,81 @@
+import { test, before, after, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'http';
+import os from 'os';
+import path from 'path';
+import crypto from 'crypto';
+import fs from 'fs-extra';
+import { AddressInfo } from 'net';
+import { download, mirrorUrl } from './download.js';
+
+const PAYLOAD = crypto.randomBytes(64 * 1024);
+const PAYLOAD_SHA256 = crypto.createHash('sha256').update(PAYLOAD).digest('hex');
+
+let server: http.Server;
+let baseUrl: string;
+let tempDir: string;
+const requests: (string | undefined)[] = [];
+
+before(async () => {
+    // The test server is local even where a proxy is configured
+    process.env.NO_PROXY = '127.0.0.1';
+    // Serves PAYLOAD at /file.bin with Range support; everything else is a 404
+    server = http.createServer((req, res) => {
+        requests.push(req.headers.range);
+        if (req.url !== '/file.bin') {
+            res.writeHead(404).end();
+            return;
+        }
+        const offset = Number(req.headers.range?.match(/^bytes=(\d+)-$/)?.[1] ?? 0);
+        res.writeHead(offset > 0 ? 206 : 200, { 'Content-Length': PAYLOAD.length - offset });
+        res.end(PAYLOAD.subarray(offset));
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'create-droid-download-'));
+});
+
+after(async () => {
+    await new Promise(resolve => server.close(resolve));
+    await fs.remove(tempDir);
+});
+
+afterEach(() => {
+    requests.length = 0;
+    delete process.env.CREATE_DROID_MIRRORS;
+});
+
+test('mirrorUrl rewrites matching prefixes only', () => {
+    process.env.CREATE_DROID_MIRRORS = 'https://dl.google.com/android/=https://mirror.acme.dev/android, bad-pair';
+    assert.equal(mirrorUrl('https://dl.google.com/android/repository/tools.zip'), 'https://mirror.acme.dev/android/repository/tools.zip');
+    assert.equal(mirrorUrl('https://dl.google.com/androidx/x.zip'), 'https://dl.google.com/androidx/x.zip');
+    assert.equal(mirrorUrl('https://services.gradle.org/x.zip'), 'https://services.gradle.org/x.zip');
+});
+
+test('download verifies the checksum and moves the file into place', async () => {
+    const dest = path.join(tempDir, 'verified.bin');
+    await download(`${baseUrl}/file.bin`, dest, { sha256: PAYLOAD_SHA256 });
+    assert.deepEqual(await fs.readFile(dest), PAYLOAD);
+    assert.equal(fs.existsSync(`${dest}.part`), false);
+});
+
+test('download resumes a partial file with a Range request', async () => {
+    const dest = path.join(tempDir, 'resumed.bin');
+    await fs.writeFile(`${dest}.part`, PAYLOAD.subarray(0, 1000));
+    await download(`${baseUrl}/file.bin`, dest, { sha256: PAYLOAD_SHA256 });
+    assert.deepEqual(requests, ['bytes=1000-']);
+    assert.deepEqual(await fs.readFile(dest), PAYLOAD);
+});
+
+test('download discards a file whose checksum does not match', async () => {
+    const dest = path.join(tempDir, 'mismatch.bin');
+    await assert.rejects(download(`${baseUrl}/file.bin`, dest, { sha256: '0'.repeat(64) }), /Checksum mismatch/);
+    assert.equal(fs.existsSync(dest), false);
+    assert.equal(fs.existsSync(`${dest}.part`), false);
+});
+
+test('download does not retry a 404', async () => {
+    const dest = path.join(tempDir, 'missing.bin');
+    await assert.rejects(download(`${baseUrl}/missing.bin`, dest), /404/);
+    assert.equal(requests.length, 1);
+});
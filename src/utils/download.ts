@@ -0,0 +1,267 @@
+import fs from 'fs-extra';
+import path from 'path';
+import http from 'http';
+import https from 'https';
+import tls from 'tls';
+import net from 'net';
+import crypto from 'crypto';
+import { createReadStream, createWriteStream } from 'fs';
+import { Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import { logger } from './logger.js';
+
+export interface DownloadOptions {
+    // Expected sha256 (hex); the file is discarded when it doesn't match
+    sha256?: string;
+    // Name shown in the progress line, the file name by default
+    label?: string;
+    // Attempts after the first one
+    retries?: number;
+}
+
+const MAX_REDIRECTS = 5;
+const RETRY_DELAYS_MS = [1000, 3000, 9000];
+const IDLE_TIMEOUT_MS = 30_000;
+
+class HttpStatusError extends Error {
+    constructor(readonly status: number, url: string) {
+        super(`${status} ${http.STATUS_CODES[status] ?? ''} for ${url}`.trim());
+    }
+
+    // Server errors, rate limits and timeouts may go away on their own; a 404 won't
+    get retryable(): boolean {
+        return this.status >= 500 || this.status === 408 || this.status === 429;
+    }
+}
+
+/**
+ * Downloads `url` to `destPath`, rewritten by CREATE_DROID_MIRRORS and sent through
+ * HTTP(S)_PROXY unless NO_PROXY matches. Failed attempts are retried with backoff and
+ * continue the `.part` file with a Range request; the file only appears at `destPath`
+ * once complete and, when `sha256` is given, verified.
+ */
+export async function download(url: string, destPath: string, options: DownloadOptions = {}): Promise<void> {
+    const source = mirrorUrl(url);
+    const partPath = `${destPath}.part`;
+    const label = options.label ?? path.basename(destPath);
+    await fs.ensureDir(path.dirname(destPath));
+
+    await withRetries(source, options.retries, () => fetchToFile(source, partPath, label));
+
+    if (options.sha256) {
+        const actual = await sha256File(partPath);
+        if (actual !== options.sha256.toLowerCase()) {
+            await fs.remove(partPath);
+            throw new Error(`Checksum mismatch for ${label}: expected ${options.sha256}, got ${actual}. The download was discarded.`);
+        }
+    }
+    await fs.move(partPath, destPath, { overwrite: true });
+}
+
+/** Fetches a small text resource (a checksum, a JSON listing) with the same mirrors, proxy and retries. */
+export async function fetchText(url: string, options: { retries?: number } = {}): Promise<string> {
+    const source = mirrorUrl(url);
+    return withRetries(source, options.retries, async () => {
+        const response = await openUrl(source, {});
+        if (response.statusCode !== 200) {
+            response.resume();
+            throw new HttpStatusError(response.statusCode ?? 0, source);
+        }
+        const chunks: Buffer[] = [];
+        for await (const chunk of response) chunks.push(chunk as Buffer);
+        return Buffer.concat(chunks).toString('utf-8');
+    });
+}
+
+export async function sha256File(filePath: string): Promise<string> {
+    const hash = crypto.createHash('sha256');
+    await pipeline(createReadStream(filePath), hash);
+    return hash.digest('hex');
+}
+
+/**
+ * Rewrites `url` with CREATE_DROID_MIRRORS, a comma-separated list of `<prefix>=<mirror>` pairs, e.g.
+ * `https://dl.google.com/android/repository=https://mirror.acme.dev/android`.
+ */
+export function mirrorUrl(url: string): string {
+    for (const pair of (process.env.CREATE_DROID_MIRRORS ?? '').split(',')) {
+        const separator = pair.indexOf('=');
+        if (separator === -1) continue;
+        const prefix = pair.slice(0, separator).trim().replace(/\/+$/, '');
+        const mirror = pair.slice(separator + 1).trim().replace(/\/+$/, '');
+        if (prefix && mirror && (url === prefix || url.startsWith(`${prefix}/`))) {
+            return mirror + url.slice(prefix.length);
+        }
+    }
+    return url;
+}
+
+async function withRetries<T>(url: string, retries = RETRY_DELAYS_MS.length, attempt: () => Promise<T>): Promise<T> {
+    for (let failures = 0; ; failures++) {
+        try {
+            return await attempt();
+        } catch (e: any) {
+            const retryable = !(e instanceof HttpStatusError) || e.retryable;
+            if (!retryable || failures >= retries) {
+                throw new Error(`Download of ${url} failed: ${e.message}`);
+            }
+            const delay = RETRY_DELAYS_MS[Math.min(failures, RETRY_DELAYS_MS.length - 1)];
+            logger.warn(`Download interrupted (${e.message}); retrying in ${delay / 1000}s...`);
+            await new Promise(resolve => setTimeout(resolve, delay));
+        }
+    }
+}
+
+async function fetchToFile(url: string, partPath: string, label: string) {
+    const offset = fs.existsSync(partPath) ? (await fs.stat(partPath)).size : 0;
+    const response = await openUrl(url, offset > 0 ? { Range: `bytes=${offset}-` } : {});
+    const status = response.statusCode ?? 0;
+
+    if (status === 416) {
+        // The part file doesn't fit what the server has (a different artifact); start over
+        response.resume();
+        await fs.remove(partPath);
+        throw new Error('stale partial download discarded');
+    }
+    if (status !== 200 && status !== 206) {
+        response.resume();
+        throw new HttpStatusError(status, url);
+    }
+
+    // A server without Range support answers 200 with the whole file
+    const resumed = status === 206;
+    const start = resumed ? offset : 0;
+    const length = Number(response.headers['content-length']);
+    const total = Number.isFinite(length) ? start + length : null;
+
+    await pipeline(response, progress(label, start, total), createWriteStream(partPath, { flags: resumed ? 'a' : 'w' }));
+
+    const size = (await fs.stat(partPath)).size;
+    if (total !== null && size < total) throw new Error(`connection closed after ${size} of ${total} bytes`);
+}
+
+async function openUrl(url: string, headers: Record<string, string>, redirects = 0): Promise<http.IncomingMessage> {
+    const target = new URL(url);
+    const secure = target.protocol === 'https:';
+    const proxy = proxyFor(target);
+    const options: https.RequestOptions = {
+        method: 'GET',
+        headers: { 'User-Agent': 'create-droid', ...headers }
+    };
+
+    let transport: typeof http | typeof https = secure ? https : http;
+    if (proxy && !secure) {
+        // Plain HTTP goes to the proxy with the absolute URL as the request target
+        transport = proxy.protocol === 'https:' ? https : http;
+        Object.assign(options, { host: proxy.hostname, port: proxy.port || defaultPort(proxy), path: target.href });
+        Object.assign(options.headers!, proxyAuthorization(proxy));
+    } else {
+        Object.assign(options, { host: target.hostname, port: target.port || defaultPort(target), path: target.pathname + target.search });
+        if (proxy) {
+            const socket = await openTunnel(proxy, target);
+            options.agent = false;
+            options.createConnection = () => tls.connect({ socket, servername: target.hostname });
+        }
+    }
+
+    return new Promise((resolve, reject) => {
+        const request = transport.request(options, response => {
+            const status = response.statusCode ?? 0;
+            const location = response.headers.location;
+            if (status >= 300 && status < 400 && location) {
+                response.resume();
+                if (redirects >= MAX_REDIRECTS) {
+                    reject(new Error(`too many redirects from ${url}`));
+                    return;
+                }
+                openUrl(new URL(location, target).href, headers, redirects + 1).then(resolve, reject);
+                return;
+            }
+            resolve(response);
+        });
+        request.setTimeout(IDLE_TIMEOUT_MS, () => request.destroy(new Error(`no data from ${target.host} for ${IDLE_TIMEOUT_MS / 1000}s`)));
+        request.once('error', reject);
+        request.end();
+    });
+}
+
+// CONNECT tunnel through the proxy for an HTTPS request
+function openTunnel(proxy: URL, target: URL): Promise<net.Socket> {
+    const authority = `${target.hostname}:${target.port || defaultPort(target)}`;
+    return new Promise((resolve, reject) => {
+        const request = (proxy.protocol === 'https:' ? https : http).request({
+            host: proxy.hostname,
+            port: proxy.port || defaultPort(proxy),
+            method: 'CONNECT',
+            path: authority,
+            headers: { Host: authority, ...proxyAuthorization(proxy) }
+        });
+        request.once('connect', (response, socket) => {
+            if (response.statusCode === 200) {
+                resolve(socket);
+            } else {
+                socket.destroy();
+                reject(new Error(`proxy ${proxy.host} refused to connect to ${authority} (${response.statusCode})`));
+            }
+        });
+        request.setTimeout(IDLE_TIMEOUT_MS, () => request.destroy(new Error(`proxy ${proxy.host} did not answer`)));
+        request.once('error', reject);
+        request.end();
+    });
+}
+
+// HTTPS_PROXY / HTTP_PROXY (either case) for the URL's scheme, unless NO_PROXY lists its host
+function proxyFor(target: URL): URL | null {
+    const env = process.env;
+    const value = target.protocol === 'https:' ? env.HTTPS_PROXY ?? env.https_proxy : env.HTTP_PROXY ?? env.http_proxy;
+    if (!value) return null;
+
+    const host = target.hostname.toLowerCase();
+    for (const entry of (env.NO_PROXY ?? env.no_proxy ?? '').split(',').map(e => e.trim().toLowerCase()).filter(Boolean)) {
+        if (entry === '*') return null;
+        const domain = entry.replace(/:\d+$/, '').replace(/^\*?\./, '');
+        if (host === domain || host.endsWith(`.${domain}`)) return null;
+    }
+    return new URL(value.includes('://') ? value : `http://${value}`);
+}
+
+function proxyAuthorization(proxy: URL): Record<string, string> {
+    if (!proxy.username) return {};
+    const credentials = `${decodeURIComponent(proxy.username)}:${decodeURIComponent(proxy.password)}`;
+    return { 'Proxy-Authorization': `Basic ${Buffer.from(credentials).toString('base64')}` };
+}
+
+function defaultPort(url: URL): number {
+    return url.protocol === 'https:' ? 443 : 80;
+}
+
+// Redrawn in place on stderr, only on a terminal so CI logs stay readable
+function progress(label: string, start: number, total: number | null): Transform {
+    const tty = process.stderr.isTTY === true;
+    const mb = (bytes: number) => (bytes / 1024 ** 2).toFixed(1);
+    let received = start;
+    let drawnAt = 0;
+
+    const draw = () => {
+        const amount = total ? `${Math.floor((received / total) * 100)}% (${mb(received)}/${mb(total)} MB)` : `${mb(received)} MB`;
+        process.stderr.write(`\r  ${label}  ${amount}\x1b[K`);
+    };
+
+    return new Transform({
+        transform(chunk: Buffer, _encoding, callback) {
+            received += chunk.length;
+            if (tty && Date.now() - drawnAt > 100) {
+                drawnAt = Date.now();
+                draw();
+            }
+            callback(null, chunk);
+        },
+        flush(callback) {
+            if (tty) {
+                draw();
+                process.stderr.write('\n');
+            }
+            callback();
+        }
+    });
+}
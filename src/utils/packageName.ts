@@ -0,0 +1,44 @@
+// Java keywords and literals are rejected by the Android toolchain outright;
+// Kotlin hard keywords would force backticks in every package declaration.
+const RESERVED_WORDS = new Set([
+    // Java
+    'abstract', 'assert', 'boolean', 'break', 'byte', 'case', 'catch', 'char', 'class', 'const',
+    'continue', 'default', 'do', 'double', 'else', 'enum', 'extends', 'final', 'finally', 'float',
+    'for', 'goto', 'if', 'implements', 'import', 'instanceof', 'int', 'interface', 'long', 'native',
+    'new', 'package', 'private', 'protected', 'public', 'return', 'short', 'static', 'strictfp',
+    'super', 'switch', 'synchronized', 'this', 'throw', 'throws', 'transient', 'try', 'void',
+    'volatile', 'while', 'true', 'false', 'null', '_',
+    // Kotlin
+    'as', 'fun', 'in', 'is', 'object', 'typealias', 'typeof', 'val', 'var', 'when',
+]);
+
+/**
+ * Validates a package name / applicationId.
+ * Returns `true` when valid, otherwise a human readable reason (prompts-compatible).
+ */
+export function validatePackageName(name: string): true | string {
+    if (!name) return 'Package name is required.';
+
+    const segments = name.split('.');
+    if (segments.length < 2) {
+        return 'Package name must have at least two segments (e.g. com.example.app).';
+    }
+
+    for (const segment of segments) {
+        if (!segment) return 'Package name must not contain empty segments.';
+        if (/[A-Z]/.test(segment)) return `"${segment}" must be lowercase.`;
+        if (/^[0-9]/.test(segment)) return `"${segment}" must not start with a digit.`;
+        if (!/^[a-z_][a-z0-9_]*$/.test(segment)) {
+            return `"${segment}" may only contain lowercase letters, digits and underscores.`;
+        }
+        if (RESERVED_WORDS.has(segment)) return `"${segment}" is a reserved word.`;
+    }
+
+    return true;
+}
+
+export function defaultPackageName(projectName: string): string {
+    const safeProjectName = projectName.toLowerCase().replace(/[^a-z0-9]/g, '').replace(/^[0-9]+/, '');
+    const candidate = `com.example.${safeProjectName || 'androidapp'}`;
+    return validatePackageName(candidate) === true ? candidate : `com.example.${safeProjectName}app`;
+}
@@ -0,0 +1,37 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { compareVersions, satisfiesRange } from './versionRange.js';
+
+test('compareVersions orders numerically, with qualifiers before the release', () => {
+    assert.equal(compareVersions('8.10.0', '8.9.1'), 1);
+    assert.equal(compareVersions('2.0.0-RC1', '2.0.0'), -1);
+    assert.equal(compareVersions('1.0.0-alpha2', '1.0.0-alpha12'), -1);
+    assert.equal(compareVersions('2.1.10-1.0.31', '2.1.10'), 1);
+    assert.equal(compareVersions('8.12', '8.12'), 0);
+});
+
+test('satisfiesRange treats a bare version as an exact match', () => {
+    assert.equal(satisfiesRange('8.8.2', '8.8.2'), true);
+    assert.equal(satisfiesRange('8.8.2', '=8.8.2'), true);
+    assert.equal(satisfiesRange('8.8.3', '8.8.2'), false);
+});
+
+test('satisfiesRange combines comparators and tolerates extra whitespace', () => {
+    assert.equal(satisfiesRange('8.10.0', '  >=8.2   <9 '), true);
+    assert.equal(satisfiesRange('9.0.0', '>=8.2 <9'), false);
+    assert.equal(satisfiesRange('8.1.4', '>=8.2 <9'), false);
+});
+
+test('satisfiesRange bounds are inclusive or exclusive as written', () => {
+    assert.equal(satisfiesRange('2.0.0', '>=2.0.0'), true);
+    assert.equal(satisfiesRange('2.0.0', '>2.0.0'), false);
+    assert.equal(satisfiesRange('2.2', '<=2.2'), true);
+    assert.equal(satisfiesRange('2.2', '<2.2'), false);
+});
+
+test('satisfiesRange keeps pre-releases and longer versions on the right side of a bound', () => {
+    assert.equal(satisfiesRange('2.0.0-RC1', '>=2.0.0'), false);
+    assert.equal(satisfiesRange('2.1.10', '<2.2'), true);
+    assert.equal(satisfiesRange('2.2.0', '<2.2'), false);
+    assert.equal(satisfiesRange('2.1.10-1.0.31', '>2.1.10'), true);
+});
@@ -0,0 +1,45 @@
+/**
+ * Orders Maven-style versions: numeric parts numerically, a qualifier (`-alpha12`, `-rc01`)
+ * before the release it precedes, and extra numeric parts (`2.1.10-1.0.31`) after it.
+ */
+export function compareVersions(a: string, b: string): number {
+    const left = a.split(/[.-]/);
+    const right = b.split(/[.-]/);
+
+    for (let i = 0; i < Math.max(left.length, right.length); i++) {
+        const l = left[i];
+        const r = right[i];
+        if (l === r) continue;
+        if (l === undefined) return /^\d+$/.test(r) ? -1 : 1;
+        if (r === undefined) return /^\d+$/.test(l) ? 1 : -1;
+
+        const lNum = /^\d+$/.test(l);
+        const rNum = /^\d+$/.test(r);
+        if (lNum && rNum) {
+            const diff = Number(l) - Number(r);
+            if (diff !== 0) return Math.sign(diff);
+        } else if (lNum !== rNum) {
+            return lNum ? 1 : -1;
+        } else {
+            const diff = l.localeCompare(r, 'en', { numeric: true });
+            if (diff !== 0) return diff;
+        }
+    }
+    return 0;
+}
+
+/** Checks a version against space-separated comparators, e.g. `>=2.0.0 <2.2`; a bare version must match exactly. */
+export function satisfiesRange(version: string, range: string): boolean {
+    return range.trim().split(/\s+/).every(comparator => {
+        const match = comparator.match(/^(>=|<=|>|<|=)?(.+)$/);
+        if (!match) return false;
+        const diff = compareVersions(version, match[2]);
+        switch (match[1]) {
+            case '>=': return diff >= 0;
+            case '<=': return diff <= 0;
+            case '>': return diff > 0;
+            case '<': return diff < 0;
+            default: return diff === 0;
+        }
+    });
+}
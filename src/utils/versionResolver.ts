@@ -1,15 +1,140 @@
 import { logger } from './logger.js';
+import { CONSTANTS } from './constants.js';
+import { readVersionCache, writeVersionCache } from './cache.js';
 
-interface Artifact {
+export interface Artifact {
     group: string;
     name: string;
     stableOnly?: boolean;
 }
 
+export interface ResolveOptions {
+    offline?: boolean;
+    locked?: Record<string, string>;
+    // Kotlin version KSP has to match; defaults to the resolved KOTLIN_VERSION
+    kotlinVersion?: string;
+}
+
+type VersionSource = 'maven' | 'remote' | 'cache' | 'default';
+
 export class VersionResolver {
     private static GOOGLE_MAVEN = 'https://dl.google.com/dl/android/maven2';
     private static MAVEN_CENTRAL = 'https://repo1.maven.org/maven2';
 
+    // Keys that are never resolved from Maven
+    private static STATIC_KEYS = ['COMPILE_SDK', 'TARGET_SDK', 'MIN_SDK', 'GRADLE_VERSION'];
+
+    // Critical build infrastructure keys - ALWAYS prefer GitHub (vetted) or Local Fallback
+    private static BUILD_INFRA_KEYS = ['AGP_VERSION', 'KOTLIN_VERSION', 'GRADLE_VERSION', 'COMPILE_SDK', 'TARGET_SDK', 'MIN_SDK',
+                                       'CORE_KTX_VERSION', 'ACTIVITY_COMPOSE_VERSION', 'APPCOMPAT_VERSION', 'MATERIAL_VERSION',
+                                       'NAVIGATION_COMPOSE_VERSION', 'LIFECYCLE_RUNTIME_KTX_VERSION'];
+
+    /**
+     * Resolves every artifact key (plus SDK levels, Gradle and KSP) to a concrete version.
+     * Online results are written to the local cache; offline runs read from it and
+     * fall back to `CONSTANTS.DEFAULTS`. Locked versions bypass resolution entirely.
+     */
+    static async resolveVersions(artifacts: Record<string, Artifact>, options: ResolveOptions = {}): Promise<Record<string, string>> {
+        const keys = [...Object.keys(artifacts), ...this.STATIC_KEYS];
+        const defaults = CONSTANTS.DEFAULTS as Record<string, string>;
+        const versions: Record<string, string> = {};
+        const sources: Record<string, VersionSource> = {};
+
+        if (options.locked) {
+            const missing: string[] = [];
+            for (const key of [...keys, 'KSP_VERSION']) {
+                if (options.locked[key]) {
+                    versions[key] = options.locked[key];
+                } else if (defaults[key]) {
+                    versions[key] = defaults[key];
+                    missing.push(key);
+                }
+            }
+            if (!options.locked['KSP_VERSION'] && !this.matchesKotlin(versions['KSP_VERSION'], versions['KOTLIN_VERSION'])) {
+                delete versions['KSP_VERSION'];
+            }
+            if (missing.length > 0) {
+                logger.warn(`Lockfile has no entry for ${missing.join(', ')}; using built-in defaults.`);
+            }
+            return versions;
+        }
+
+        if (options.offline) {
+            const cache = await readVersionCache();
+            for (const key of [...keys, 'KSP_VERSION']) {
+                if (cache?.versions[key]) {
+                    versions[key] = cache.versions[key];
+                    sources[key] = 'cache';
+                } else if (defaults[key]) {
+                    versions[key] = defaults[key];
+                    sources[key] = 'default';
+                }
+            }
+            // A KSP release only works with the Kotlin version it was built for
+            if (!this.matchesKotlin(versions['KSP_VERSION'], options.kotlinVersion ?? versions['KOTLIN_VERSION'])) {
+                delete versions['KSP_VERSION'];
+                delete sources['KSP_VERSION'];
+            }
+            this.reportOfflineSources(sources, cache?.resolvedAt);
+            return versions;
+        }
+
+        const resolvedMaven = await this.resolveAll(artifacts);
+        const remoteDefaults = await this.getRemoteDefaults();
+
+        for (const key of keys) {
+            if (!this.BUILD_INFRA_KEYS.includes(key) && resolvedMaven[key]) {
+                versions[key] = resolvedMaven[key];
+                sources[key] = 'maven';
+            } else if (remoteDefaults[key]) {
+                versions[key] = remoteDefaults[key];
+                sources[key] = 'remote';
+            } else if (defaults[key]) {
+                versions[key] = defaults[key];
+                sources[key] = 'default';
+            }
+        }
+
+        // Resolve KSP separately as it depends on Kotlin version
+        const kotlinVersion = options.kotlinVersion ?? versions['KOTLIN_VERSION'];
+        const kspVersion = await this.getLatestKspVersion(kotlinVersion);
+        if (kspVersion) {
+            versions['KSP_VERSION'] = kspVersion;
+            sources['KSP_VERSION'] = 'maven';
+        } else if (this.matchesKotlin(defaults['KSP_VERSION'], kotlinVersion)) {
+            versions['KSP_VERSION'] = defaults['KSP_VERSION'];
+            sources['KSP_VERSION'] = 'default';
+        } else {
+            // Left unset: recipes needing KSP pick a known release or explain why they can't
+            logger.warn(`No KSP release found for Kotlin ${kotlinVersion}.`);
+        }
+
+        const resolved = Object.fromEntries(Object.entries(versions).filter(([key]) => sources[key] !== 'default'));
+        try {
+            await writeVersionCache(resolved);
+        } catch (e: any) {
+            logger.warn(`Could not update version cache: ${e.message}`);
+        }
+
+        return versions;
+    }
+
+    private static matchesKotlin(kspVersion: string | undefined, kotlinVersion: string | undefined): boolean {
+        return !!kspVersion && !!kotlinVersion && kspVersion.startsWith(`${kotlinVersion}-`);
+    }
+
+    private static reportOfflineSources(sources: Record<string, VersionSource>, resolvedAt?: string) {
+        const fromCache = Object.keys(sources).filter(k => sources[k] === 'cache');
+        const fromDefaults = Object.keys(sources).filter(k => sources[k] === 'default');
+
+        if (fromCache.length > 0) {
+            logger.info(`Offline: ${fromCache.length} versions from local cache (resolved ${resolvedAt}).`);
+        }
+        if (fromDefaults.length > 0) {
+            logger.warn(`Offline: no cached value for ${fromDefaults.join(', ')}; using built-in defaults.`);
+        }
+    }
+
     static async getLatestVersion(artifact: Artifact): Promise<string | null> {
         const path = `${artifact.group.replace(/\./g, '/')}/${artifact.name}/maven-metadata.xml`;
         
@@ -49,6 +174,17 @@ export class VersionResolver {
         return version;
     }
 
+    static async getLatestGradleVersion(): Promise<string | null> {
+        try {
+            const response = await fetch('https://services.gradle.org/versions/current');
+            if (!response.ok) return null;
+            const current = await response.json();
+            return typeof current.version === 'string' ? current.version : null;
+        } catch (e) {
+            return null;
+        }
+    }
+
     private static async fetchFromRepo(repo: string, path: string, stableOnly: boolean = true, prefix?: string): Promise<string | null> {
         try {
             const response = await fetch(`${repo}/${path}`);
@@ -77,7 +213,7 @@ export class VersionResolver {
         }
     }
 
-    private static isStable(version: string): boolean {
+    static isStable(version: string): boolean {
         const lower = version.toLowerCase();
         return !lower.includes('alpha') && 
                !lower.includes('beta') && 
@@ -88,16 +224,20 @@ export class VersionResolver {
 
     static async resolveAll(artifacts: Record<string, Artifact>): Promise<Record<string, string>> {
         const results: Record<string, string> = {};
+        const failed: string[] = [];
         const promises = Object.entries(artifacts).map(async ([key, artifact]) => {
             const version = await this.getLatestVersion(artifact);
             if (version) {
                 results[key] = version;
             } else {
-                logger.warn(`Failed to resolve version for ${artifact.group}:${artifact.name}`);
+                failed.push(`${artifact.group}:${artifact.name}`);
             }
         });
 
         await Promise.all(promises);
+        if (failed.length > 0) {
+            logger.warn(`Failed to resolve ${failed.length} version(s) from Maven, using fallbacks: ${failed.join(', ')}`);
+        }
         return results;
     }
 }
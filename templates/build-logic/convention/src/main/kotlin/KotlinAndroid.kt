@@ -0,0 +1,44 @@
+import com.android.build.api.dsl.CommonExtension
+import org.gradle.api.Project
+import org.gradle.api.plugins.JavaPluginExtension
+import org.gradle.kotlin.dsl.configure
+import org.jetbrains.kotlin.gradle.dsl.KotlinAndroidProjectExtension
+import org.jetbrains.kotlin.gradle.dsl.KotlinJvmProjectExtension
+
+internal fun Project.configureKotlinAndroid(commonExtension: CommonExtension<*, *, *, *, *, *>) {
+    commonExtension.apply {
+        compileSdk = ProjectConfig.COMPILE_SDK
+
+        defaultConfig {
+            minSdk = ProjectConfig.MIN_SDK
+        }
+
+        compileOptions {
+            sourceCompatibility = ProjectConfig.JAVA_VERSION
+            targetCompatibility = ProjectConfig.JAVA_VERSION
+        }
+
+        sourceSets.getByName("main") {
+            java.setSrcDirs(listOf("src/main/kotlin", "src/main/java"))
+        }
+    }
+
+    extensions.configure<KotlinAndroidProjectExtension> {
+        compilerOptions {
+            jvmTarget.set(ProjectConfig.JVM_TARGET)
+        }
+    }
+}
+
+internal fun Project.configureKotlinJvm() {
+    extensions.configure<JavaPluginExtension> {
+        sourceCompatibility = ProjectConfig.JAVA_VERSION
+        targetCompatibility = ProjectConfig.JAVA_VERSION
+    }
+
+    extensions.configure<KotlinJvmProjectExtension> {
+        compilerOptions {
+            jvmTarget.set(ProjectConfig.JVM_TARGET)
+        }
+    }
+}
@@ -0,0 +1,14 @@
+import org.gradle.api.JavaVersion
+import org.jetbrains.kotlin.gradle.dsl.JvmTarget
+
+/**
+ * SDK levels and JVM target shared by every module. Bump them here.
+ */
+object ProjectConfig {
+    const val COMPILE_SDK = {{COMPILE_SDK}}
+    const val MIN_SDK = {{MIN_SDK}}
+    const val TARGET_SDK = {{TARGET_SDK}}
+
+    val JAVA_VERSION = JavaVersion.VERSION_17
+    val JVM_TARGET = JvmTarget.JVM_17
+}
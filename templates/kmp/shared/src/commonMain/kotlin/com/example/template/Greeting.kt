@@ -0,0 +1,17 @@
+package {{PACKAGE_NAME}}
+
+import kotlinx.coroutines.flow.Flow
+import kotlinx.coroutines.flow.flow
+
+/**
+ * Shared business logic. Everything in commonMain runs on Android and the JVM.
+ */
+class Greeting {
+    private val platform = getPlatform()
+
+    fun greet(): String = "Hello, ${platform.name}!"
+
+    fun greetings(): Flow<String> = flow {
+        emit(greet())
+    }
+}
@@ -0,0 +1,11 @@
+package {{PACKAGE_NAME}}
+
+import kotlin.test.Test
+import kotlin.test.assertTrue
+
+class GreetingTest {
+    @Test
+    fun greetingMentionsPlatform() {
+        assertTrue(Greeting().greet().startsWith("Hello, "))
+    }
+}
@@ -0,0 +1,7 @@
+package {{PACKAGE_NAME}}
+
+class JvmPlatform : Platform {
+    override val name: String = "Java ${System.getProperty("java.version")}"
+}
+
+actual fun getPlatform(): Platform = JvmPlatform()
@@ -0,0 +1,25 @@
+package {{PACKAGE_NAME}}
+
+import androidx.compose.foundation.layout.Box
+import androidx.compose.foundation.layout.fillMaxSize
+import androidx.compose.material3.Text
+import androidx.compose.runtime.Composable
+import androidx.compose.ui.Alignment
+import androidx.compose.ui.Modifier
+import androidx.compose.ui.tooling.preview.Preview
+
+/**
+ * Main screen of this feature.
+ */
+@Composable
+fun FeatureScreen(modifier: Modifier = Modifier) {
+    Box(modifier = modifier.fillMaxSize(), contentAlignment = Alignment.Center) {
+        Text(text = "{{PACKAGE_NAME}}")
+    }
+}
+
+@Preview(showBackground = true)
+@Composable
+fun FeatureScreenPreview() {
+    FeatureScreen()
+}
@@ -0,0 +1,8 @@
+package {{PACKAGE_NAME}}
+
+/**
+ * Entry point of this module. Replace with your own API.
+ */
+object Library {
+    fun greeting(name: String): String = "Hello $name from {{PACKAGE_NAME}}!"
+}